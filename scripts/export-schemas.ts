@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+/**
+ * Write the BIND JSON Schema documents to disk.
+ *
+ * Usage:
+ *   pnpm run export:schemas
+ *   pnpm run export:schemas -- --out ./schemas --strict
+ *
+ * Writes one `{ResourceType}.schema.json` file per resource, for services that
+ * validate BIND payloads without this SDK.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { toJsonSchema } from "../src/schema/index";
+import { definitions } from "../src/validation/index";
+
+const args = process.argv.slice(2);
+let outDir = resolve(process.cwd(), "schemas");
+
+const outArgIndex = args.indexOf("--out");
+if (outArgIndex !== -1 && args[outArgIndex + 1]) {
+  outDir = resolve(args[outArgIndex + 1]);
+}
+
+const strict = args.includes("--strict");
+const resources = Object.values(definitions).filter((d) => d.resourceType);
+
+mkdirSync(outDir, { recursive: true });
+
+console.log(`Writing ${resources.length} schemas to ${outDir}`);
+
+for (const { name } of resources) {
+  const file = `${name}.schema.json`;
+  writeFileSync(
+    resolve(outDir, file),
+    `${JSON.stringify(toJsonSchema(name, { strict }), null, 2)}\n`,
+  );
+  console.log(`  wrote ${file}`);
+}
+
+console.log("Done.");
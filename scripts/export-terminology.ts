@@ -0,0 +1,41 @@
+#!/usr/bin/env tsx
+/**
+ * Write an offline snapshot of the BIND terminology server to disk.
+ *
+ * Usage:
+ *   pnpm run export:terminology
+ *   pnpm run export:terminology -- --out ./terminology.ndjson --format ndjson
+ *   pnpm run export:terminology -- --base-url http://localhost:8787
+ *
+ * Serve the snapshot with `LocalTerminologyClient` on machines without network access.
+ */
+
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { TerminologyClient } from "../src/terminology/client";
+import { createSnapshot, serializeSnapshot } from "../src/terminology/snapshot";
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+const format = option("--format") ?? "json";
+if (format !== "json" && format !== "ndjson") {
+  console.error(`Unknown format '${format}'; use json or ndjson`);
+  process.exit(1);
+}
+
+const baseUrl = option("--base-url") ?? "https://bind.codes";
+const outFile = resolve(option("--out") ?? `terminology-snapshot.${format}`);
+
+console.log(`Taking terminology snapshot from ${baseUrl}`);
+
+const snapshot = await createSnapshot(new TerminologyClient({ baseUrl, cache: false }), {
+  source: baseUrl,
+});
+writeFileSync(outFile, serializeSnapshot(snapshot, format));
+
+console.log(`  wrote ${snapshot.codeSystems.length} code systems to ${outFile}`);
+console.log("Done.");
@@ -0,0 +1,55 @@
+#!/usr/bin/env tsx
+/**
+ * Generate TypeScript code unions and typed Coding helpers from BIND code systems.
+ *
+ * Usage:
+ *   pnpm run generate:codes -- --out ./src/bind-codes.ts
+ *   pnpm run generate:codes -- --snapshot ./terminology.ndjson --out ./src/bind-codes.ts
+ *   pnpm run generate:codes -- --base-url http://localhost:8787 --ids roof-type,line-of-business
+ *   pnpm run generate:codes -- --import-from ../types/base
+ *
+ * Code systems are read from the terminology server, or from an offline snapshot
+ * written by `pnpm run export:terminology`. For each code system the output has a
+ * `const` array of codes, a literal union type (e.g., `RoofTypeCode`), a typed
+ * `Coding` interface and builder, and a type guard, so a mistyped code fails to compile.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { TerminologyApi } from "../src/terminology/client";
+import { TerminologyClient } from "../src/terminology/client";
+import { renderCodeModule } from "../src/terminology/codegen";
+import { LocalTerminologyClient } from "../src/terminology/local";
+import { createSnapshot, parseSnapshot } from "../src/terminology/snapshot";
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+const snapshotFile = option("--snapshot");
+const baseUrl = option("--base-url") ?? "https://bind.codes";
+const outFile = resolve(option("--out") ?? "bind-codes.ts");
+const ids = option("--ids")
+  ?.split(",")
+  .map((id) => id.trim());
+
+const source = snapshotFile ? resolve(snapshotFile) : baseUrl;
+const client: TerminologyApi = snapshotFile
+  ? new LocalTerminologyClient(parseSnapshot(readFileSync(source, "utf8")))
+  : new TerminologyClient({ baseUrl, cache: false });
+
+console.log(`Reading code systems from ${source}`);
+
+const { codeSystems } = await createSnapshot(client, { ids });
+writeFileSync(
+  outFile,
+  renderCodeModule(codeSystems, {
+    importFrom: option("--import-from"),
+    source: snapshotFile ? undefined : baseUrl,
+  }),
+);
+
+console.log(`  wrote ${codeSystems.length} code systems to ${outFile}`);
+console.log("Done.");
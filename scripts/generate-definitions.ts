@@ -0,0 +1,227 @@
+#!/usr/bin/env tsx
+/**
+ * Generate runtime structure definitions from the BIND type definitions.
+ *
+ * Usage:
+ *   pnpm run generate:definitions
+ *
+ * This script reads the interfaces exported from src/types/index.ts with the
+ * TypeScript compiler API and writes src/validation/definitions.ts, which the
+ * runtime validator uses. Run this after every `pnpm run sync:types`.
+ */
+
+import { execFileSync } from "node:child_process";
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import ts from "typescript";
+import type {
+  BindingStrength,
+  ElementBinding,
+  ElementConstraints,
+  ElementDefinition,
+  ElementFormat,
+  TypeDefinition,
+} from "../src/validation/types";
+
+const typesIndex = resolve(import.meta.dirname, "../src/types/index.ts");
+const outputFile = resolve(import.meta.dirname, "../src/validation/definitions.ts");
+
+const program = ts.createProgram([typesIndex], { strict: true, noEmit: true });
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(typesIndex);
+const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+
+if (!moduleSymbol) {
+  console.error(`Could not load ${typesIndex}`);
+  process.exit(1);
+}
+
+const interfaces = new Map<string, ts.Symbol>();
+const aliases = new Map<string, ts.Symbol>();
+
+for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+  const symbol =
+    exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+  if (symbol.flags & ts.SymbolFlags.Interface) interfaces.set(symbol.name, symbol);
+  if (symbol.flags & ts.SymbolFlags.TypeAlias) aliases.set(symbol.name, symbol);
+}
+
+const formats: ElementFormat[] = ["date", "date-time", "time", "uri"];
+
+/** Read the constraint tags (`@pattern`, `@format`, `@minimum`, `@maximum`, `@asType`). */
+function constraintsOf(symbol: ts.Symbol, context: string): ElementConstraints {
+  const constraints: ElementConstraints = {};
+  for (const tag of symbol.getJsDocTags(checker)) {
+    const text = ts.displayPartsToString(tag.text).trim();
+    switch (tag.name) {
+      case "pattern":
+        constraints.pattern = text;
+        break;
+      case "format":
+        if (!formats.includes(text as ElementFormat)) {
+          throw new Error(`Unsupported @format '${text}' on ${context}`);
+        }
+        constraints.format = text as ElementFormat;
+        break;
+      case "minimum":
+      case "maximum":
+        if (!Number.isFinite(Number(text))) {
+          throw new Error(`Invalid @${tag.name} '${text}' on ${context}`);
+        }
+        constraints[tag.name] = Number(text);
+        break;
+      case "asType":
+        if (text === "integer") constraints.integer = true;
+        break;
+    }
+  }
+  return constraints;
+}
+
+const strengths: BindingStrength[] = ["required", "extensible", "preferred", "example"];
+
+/** Read the `@terminology <system> <strength>` tag, if present. */
+function bindingOf(symbol: ts.Symbol, context: string): ElementBinding | undefined {
+  const tag = symbol.getJsDocTags(checker).find((t) => t.name === "terminology");
+  if (!tag) return undefined;
+  const [system, strength = "preferred"] = ts.displayPartsToString(tag.text).trim().split(/\s+/);
+  if (!system || !strengths.includes(strength as BindingStrength)) {
+    throw new Error(`Invalid @terminology '${ts.displayPartsToString(tag.text)}' on ${context}`);
+  }
+  return { system, strength: strength as BindingStrength };
+}
+
+/** Constraints inherited from a primitive alias such as `BindPercentage`, if the property uses one. */
+function aliasConstraintsOf(property: ts.Symbol, context: string): ElementConstraints {
+  const declaration = property.valueDeclaration;
+  let node = declaration && ts.isPropertySignature(declaration) ? declaration.type : undefined;
+  while (node && ts.isArrayTypeNode(node)) node = node.elementType;
+  if (!node || !ts.isTypeReferenceNode(node)) return {};
+  const symbol = checker.getSymbolAtLocation(node.typeName);
+  const alias = symbol && aliases.get(symbol.name);
+  return alias ? constraintsOf(alias, context) : {};
+}
+
+/** Properties of an interface, inherited properties first, in declaration order. */
+function propertiesOf(type: ts.Type): ts.Symbol[] {
+  const own = checker.getPropertiesOfType(type);
+  const inherited = (type.isClassOrInterface() ? (checker.getBaseTypes(type) ?? []) : []).flatMap(
+    (base) => checker.getPropertiesOfType(base).map((p) => p.name),
+  );
+  const rank = (p: ts.Symbol) => {
+    const index = inherited.indexOf(p.name);
+    return index === -1 ? inherited.length : index;
+  };
+  return [...own].sort((a, b) => rank(a) - rank(b));
+}
+
+/** String literals of a union in source order (the checker orders them by type identity). */
+function literalsInSourceOrder(property: ts.Symbol): string[] {
+  const declaration = property.valueDeclaration;
+  let node = declaration && ts.isPropertySignature(declaration) ? declaration.type : undefined;
+  while (node && (ts.isArrayTypeNode(node) || ts.isParenthesizedTypeNode(node))) {
+    node = ts.isArrayTypeNode(node) ? node.elementType : node.type;
+  }
+  if (!node || !ts.isUnionTypeNode(node)) return [];
+  return node.types.flatMap((t) =>
+    ts.isLiteralTypeNode(t) && ts.isStringLiteral(t.literal) ? [t.literal.text] : [],
+  );
+}
+
+function fail(context: string, type: ts.Type): never {
+  throw new Error(`Unsupported type for ${context}: ${checker.typeToString(type)}`);
+}
+
+function describeElement(property: ts.Symbol, context: string): ElementDefinition {
+  const element: ElementDefinition = { name: property.name, type: "string" };
+  if (!(property.flags & ts.SymbolFlags.Optional)) element.required = true;
+
+  let type = checker.getNonNullableType(checker.getTypeOfSymbol(property));
+  let depth = 0;
+  while (checker.isArrayType(type)) {
+    type = checker.getTypeArguments(type as ts.TypeReference)[0];
+    depth++;
+  }
+  if (depth > 0) element.array = depth;
+
+  const constraints = {
+    ...aliasConstraintsOf(property, `${context}.${property.name}`),
+    ...constraintsOf(property, `${context}.${property.name}`),
+  };
+  if (Object.keys(constraints).length > 0) element.constraints = constraints;
+
+  const binding = bindingOf(property, `${context}.${property.name}`);
+  if (binding) element.binding = binding;
+
+  const members = type.isUnion() ? type.types : [type];
+  if (members.every((t) => t.flags & ts.TypeFlags.StringLiteral)) {
+    element.type = "code";
+    const values = members.map((t) => (t as ts.StringLiteralType).value);
+    const ordered = literalsInSourceOrder(property);
+    element.values = ordered.length === values.length ? ordered : values;
+  } else if (type.flags & ts.TypeFlags.String) {
+    element.type = "string";
+  } else if (type.flags & ts.TypeFlags.Number) {
+    element.type = "number";
+  } else if (members.every((t) => t.flags & ts.TypeFlags.BooleanLike)) {
+    element.type = "boolean";
+  } else if (type.flags & ts.TypeFlags.Object) {
+    element.type = "complex";
+    const name = type.getSymbol()?.name;
+    if (name && interfaces.has(name)) {
+      element.ref = name;
+    } else {
+      element.elements = propertiesOf(type).map((p) =>
+        describeElement(p, `${context}.${property.name}`),
+      );
+    }
+  } else {
+    fail(`${context}.${property.name}`, type);
+  }
+
+  return element;
+}
+
+const definitions: Record<string, TypeDefinition> = {};
+
+for (const name of [...interfaces.keys()].sort()) {
+  const type = checker.getDeclaredTypeOfSymbol(interfaces.get(name) as ts.Symbol);
+  const elements = propertiesOf(type).map((p) => describeElement(p, name));
+  const discriminator = elements.find((e) => e.name === "resourceType");
+  definitions[name] = {
+    name,
+    ...(discriminator?.values?.length === 1 && { resourceType: discriminator.values[0] }),
+    elements,
+  };
+}
+
+const primitives: Record<string, ElementConstraints> = {};
+
+for (const name of [...aliases.keys()].sort()) {
+  const alias = aliases.get(name) as ts.Symbol;
+  const type = checker.getDeclaredTypeOfSymbol(alias);
+  if (type.flags & (ts.TypeFlags.String | ts.TypeFlags.Number | ts.TypeFlags.Boolean)) {
+    primitives[name] = constraintsOf(alias, name);
+  }
+}
+
+writeFileSync(
+  outputFile,
+  `// BIND Validation — Structure Definitions
+// Generated from src/types by scripts/generate-definitions.ts. Do not edit by hand.
+
+import type { ElementConstraints, TypeDefinition } from "./types";
+
+/** Runtime definitions of every BIND resource and data type, keyed by interface name. */
+export const definitions: Record<string, TypeDefinition> = ${JSON.stringify(definitions)};
+
+/** Constraints of the BIND primitive types, keyed by type alias name. */
+export const primitives: Record<string, ElementConstraints> = ${JSON.stringify(primitives)};
+`,
+);
+
+execFileSync("biome", ["format", "--write", outputFile], { stdio: "inherit" });
+
+console.log(
+  `Wrote ${Object.keys(definitions).length} type definitions and ${Object.keys(primitives).length} primitives to ${outputFile}`,
+);
@@ -44,4 +44,6 @@ for (const file of files) {
   console.log(`  copied ${file}`);
 }
 
-console.log("Done. Remember to update src/types/index.ts if new types were added.");
+console.log(
+  "Done. Remember to update src/types/index.ts if new types were added, then run `pnpm run generate:definitions`.",
+);
@@ -0,0 +1,204 @@
+// BIND Client — Typed HTTP Client
+// A lightweight, zero-dependency client for BIND resource servers.
+
+import type { BindResource, Bundle, ResourceOf, ResourceType } from "../resources/types";
+import type { SearchParams } from "../store/types";
+import type { BindClientOptions, BindErrorResponse, DeleteOptions, UpdateOptions } from "./types";
+
+export class BindClientError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body?: BindErrorResponse,
+  ) {
+    super(message);
+    this.name = "BindClientError";
+  }
+}
+
+/**
+ * Typed HTTP client for a BIND resource server.
+ *
+ * Resources are exchanged at `{baseUrl}/{ResourceType}/{id}`; versions are
+ * sent and received as weak ETags (`W/"3"`) matching `meta.versionId`.
+ *
+ * @example
+ * ```ts
+ * import { BindClient } from "@bind-standard/sdk/client";
+ *
+ * const client = new BindClient({ baseUrl: "https://carrier.example.com/bind" });
+ *
+ * // Create and read
+ * const policy = await client.create(draftPolicy);
+ * const same = await client.read("Policy", policy.id);
+ *
+ * // Update — fails with 412 if someone else updated the policy since it was read
+ * await client.update({ ...policy, status: "cancelled" });
+ *
+ * // Search
+ * const bundle = await client.search("Policy", { status: "active" });
+ * ```
+ */
+export class BindClient {
+  private readonly baseUrl: string;
+  private readonly fetch: typeof globalThis.fetch;
+  private readonly headers: Record<string, string>;
+
+  constructor(options: BindClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * Read the current version of a resource.
+   *
+   * @param resourceType - Resource type (e.g., "Policy")
+   * @param id - Resource id
+   */
+  async read<T extends ResourceType>(resourceType: T, id: string): Promise<ResourceOf<T>> {
+    return this.request<ResourceOf<T>>("GET", resourcePath(resourceType, id));
+  }
+
+  /**
+   * Read a specific version of a resource.
+   *
+   * @param resourceType - Resource type (e.g., "Policy")
+   * @param id - Resource id
+   * @param versionId - Version to read (a `meta.versionId`)
+   */
+  async vread<T extends ResourceType>(
+    resourceType: T,
+    id: string,
+    versionId: string,
+  ): Promise<ResourceOf<T>> {
+    return this.request<ResourceOf<T>>(
+      "GET",
+      `${resourcePath(resourceType, id)}/_history/${encodeURIComponent(versionId)}`,
+    );
+  }
+
+  /**
+   * Create a resource. The server assigns the id if the resource has none.
+   *
+   * @returns The resource as stored, with `id` and `meta` set by the server
+   */
+  async create<T extends BindResource>(resource: T): Promise<T> {
+    return this.request<T>("POST", `/${encodeURIComponent(resource.resourceType)}`, {
+      body: resource,
+    });
+  }
+
+  /**
+   * Update a resource, or create it with the given id if the server allows it.
+   * When the resource has a `meta.versionId`, the update only succeeds if the
+   * server still holds that version.
+   *
+   * @returns The resource as stored, with the new `meta.versionId`
+   * @throws BindClientError with status 412 if the resource was changed by someone else
+   */
+  async update<T extends BindResource>(resource: T, options?: UpdateOptions): Promise<T> {
+    if (!resource.id) throw new Error(`Cannot update a ${resource.resourceType} without an id`);
+    const ifMatch =
+      options?.ifMatch === false ? undefined : (options?.ifMatch ?? resource.meta?.versionId);
+    return this.request<T>("PUT", resourcePath(resource.resourceType, resource.id), {
+      body: resource,
+      ifMatch,
+    });
+  }
+
+  /**
+   * Delete a resource.
+   *
+   * @param options - Optional parameters
+   * @param options.ifMatch - Only delete if the server holds this version
+   */
+  async delete(resourceType: ResourceType, id: string, options?: DeleteOptions): Promise<void> {
+    await this.request<void>("DELETE", resourcePath(resourceType, id), {
+      ifMatch: options?.ifMatch,
+    });
+  }
+
+  /**
+   * Search for resources of one type.
+   *
+   * @param resourceType - Resource type (e.g., "Claim")
+   * @param params - Search parameters (e.g., `{ dateOfLoss: "ge2025-01-01" }`)
+   * @returns A `searchset` bundle of matching resources
+   */
+  async search<T extends ResourceType>(
+    resourceType: T,
+    params?: SearchParams,
+  ): Promise<Bundle<ResourceOf<T>>> {
+    const qs = toSearchParams(params).toString();
+    return this.request<Bundle<ResourceOf<T>>>(
+      "GET",
+      `/${encodeURIComponent(resourceType)}${qs ? `?${qs}` : ""}`,
+    );
+  }
+
+  /**
+   * Every version of a resource, newest first.
+   *
+   * @returns A `history` bundle of versions
+   */
+  async history<T extends ResourceType>(
+    resourceType: T,
+    id: string,
+  ): Promise<Bundle<ResourceOf<T>>> {
+    return this.request<Bundle<ResourceOf<T>>>("GET", `${resourcePath(resourceType, id)}/_history`);
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    init?: { body?: unknown; ifMatch?: string },
+  ): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const headers: Record<string, string> = { ...this.headers, Accept: "application/json" };
+    if (init?.body !== undefined) headers["Content-Type"] = "application/json";
+    if (init?.ifMatch !== undefined) headers["If-Match"] = `W/"${init.ifMatch}"`;
+
+    const response = await this.fetch(url, {
+      method,
+      headers,
+      body: init?.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+
+    if (!response.ok) {
+      let body: BindErrorResponse | undefined;
+      try {
+        body = (await response.json()) as BindErrorResponse;
+      } catch {
+        // ignore parse errors
+      }
+      throw new BindClientError(
+        body?.error ?? `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        body,
+      );
+    }
+
+    if (response.status === 204) return undefined as T;
+    return (await response.json()) as T;
+  }
+}
+
+function resourcePath(resourceType: string, id: string): string {
+  return `/${encodeURIComponent(resourceType)}/${encodeURIComponent(id)}`;
+}
+
+function toSearchParams(params: SearchParams | undefined): URLSearchParams {
+  if (!params) return new URLSearchParams();
+  if (params instanceof URLSearchParams) return params;
+  if (Symbol.iterator in params) {
+    return new URLSearchParams([...(params as Iterable<[string, string]>)]);
+  }
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) search.append(key, v);
+  }
+  return search;
+}
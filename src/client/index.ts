@@ -0,0 +1,2 @@
+export { BindClient, BindClientError } from "./client";
+export type { BindClientOptions, BindErrorResponse, DeleteOptions, UpdateOptions } from "./types";
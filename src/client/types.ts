@@ -0,0 +1,54 @@
+// BIND Client — TypeScript Types
+// Options and error responses for the BIND resource server client.
+
+import type { ValidationIssue } from "../validation/types";
+
+export interface BindClientOptions {
+  /** Base URL of the BIND resource server (e.g., "https://carrier.example.com/bind") */
+  baseUrl: string;
+
+  /** Custom fetch implementation (defaults to global fetch). */
+  fetch?: typeof globalThis.fetch;
+
+  /** Headers sent with every request (e.g., `Authorization`) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options for `BindClient.update`.
+ */
+export interface UpdateOptions {
+  /**
+   * Version the server must hold for the update to succeed.
+   * Defaults to the resource's `meta.versionId`; pass `false` to overwrite unconditionally.
+   */
+  ifMatch?: string | false;
+}
+
+/**
+ * Options for `BindClient.delete`.
+ */
+export interface DeleteOptions {
+  /** Version the server must hold for the delete to succeed */
+  ifMatch?: string;
+}
+
+/**
+ * Error response from a BIND resource server.
+ *
+ * @example
+ * {
+ *   "error": "Policy/pol-2025-1001 is at version '3', not '2'",
+ *   "code": "precondition-failed"
+ * }
+ */
+export interface BindErrorResponse {
+  /** Error message */
+  error: string;
+
+  /** Machine-readable error category (e.g., "not-found", "conflict", "precondition-failed") */
+  code?: string;
+
+  /** Validation issues, when a write was rejected as invalid */
+  issues?: ValidationIssue[];
+}
@@ -0,0 +1,198 @@
+// BIND Endorsements — Apply
+// Replays policy endorsements over coverages to find the terms in force on a date.
+
+import { parseReference } from "../resources/references";
+import type { Coverage } from "../types/coverage";
+import type { Endorsement, EndorsementChange, Policy } from "../types/policy";
+import { sameClass, sameConcept } from "./match";
+import type { EndorsedCoverages, EndorsementSource, EndorsementTraceEntry } from "./types";
+
+/** Where a value came from. */
+interface Origin {
+  change: EndorsementChange;
+  source: EndorsementSource;
+}
+
+/**
+ * Replay a policy's endorsements over its coverages to find the coverages in
+ * force on a date, with a trace of the endorsement behind each changed value.
+ *
+ * `coverages` are the coverages as issued. Endorsements effective on or before
+ * `asOf` are applied in `effectiveDate` order (endorsements on the same date in
+ * `Policy.endorsements` order), and each change applies to the coverage it
+ * references:
+ *
+ * - `add` — The coverage is in force from the endorsement's effective date
+ * - `modify` — The change's terms replace the coverage's
+ * - `remove` — The coverage is no longer in force
+ *
+ * Limits, coverage extensions and classifications in a change replace those of
+ * the same type (or class code and location) and are added otherwise. A
+ * deductible replaces the coverage's deductible. Premium is left as issued;
+ * use `earnedPremium` for premium as of a date. Changes to coverages that are
+ * not in `coverages` are ignored.
+ *
+ * @param policy - The policy, with its endorsements
+ * @param coverages - The policy's coverages as issued (not modified)
+ * @param asOf - Date to find the coverages in force on (ISO 8601 date)
+ * @returns Coverages in force on `asOf`, and the values set by endorsements
+ *
+ * @example
+ * ```ts
+ * // Terms in force on the date of loss
+ * const { coverages, trace } = applyEndorsements(policy, issuedCoverages, claim.dateOfLoss);
+ * coverages[0].limits?.[0].amount; // { value: 2000000, currency: "USD" }
+ * trace[0]; // { coverage: "Coverage/cov-gl-001", path: "limits[0]", action: "modify", endorsement: { index: 1, endorsementNumber: "END-002", ... } }
+ * ```
+ */
+export function applyEndorsements(
+  policy: Policy,
+  coverages: Iterable<Coverage>,
+  asOf: string,
+): EndorsedCoverages {
+  const date = asOf.slice(0, 10);
+  const endorsements = policy.endorsements ?? [];
+  const issued = [...coverages];
+
+  const added = new Set<string>();
+  for (const endorsement of endorsements) {
+    for (const change of endorsement.changes ?? []) {
+      const id = coverageId(change);
+      if (id && change.action === "add") added.add(id);
+    }
+  }
+
+  // Coverages by id, cloned so values can be traced by identity; undefined when not in force
+  const current = new Map<string, Coverage | undefined>();
+  for (const coverage of issued) {
+    if (coverage.id && !current.has(coverage.id)) {
+      current.set(coverage.id, added.has(coverage.id) ? undefined : structuredClone(coverage));
+    }
+  }
+
+  const origins = new Map<object, Origin>();
+  const lifecycle = new Map<string, Origin>();
+
+  const applied = endorsements
+    .map((endorsement, index) => ({ endorsement, index }))
+    .filter(({ endorsement }) => endorsement.effectiveDate.slice(0, 10) <= date)
+    .sort((a, b) => a.endorsement.effectiveDate.localeCompare(b.endorsement.effectiveDate));
+
+  for (const { endorsement, index } of applied) {
+    const source = toSource(endorsement, index);
+    for (const change of endorsement.changes ?? []) {
+      const id = coverageId(change);
+      if (!id || !current.has(id)) continue;
+      const origin = { change, source };
+
+      if (change.action === "remove") {
+        current.set(id, undefined);
+        lifecycle.set(id, origin);
+        continue;
+      }
+
+      let coverage = current.get(id);
+      if (change.action === "add") {
+        coverage ??= structuredClone(issued.find((c) => c.id === id) as Coverage);
+        lifecycle.set(id, origin);
+      }
+      if (!coverage) continue;
+      applyChange(coverage, structuredClone(change), (value) => origins.set(value, origin));
+      current.set(id, coverage);
+    }
+  }
+
+  const result: Coverage[] = [];
+  const trace: EndorsementTraceEntry[] = [];
+  const seen = new Set<string>();
+  for (const coverage of issued) {
+    if (!coverage.id) {
+      result.push(structuredClone(coverage));
+      continue;
+    }
+    if (seen.has(coverage.id)) continue;
+    seen.add(coverage.id);
+
+    const reference = `Coverage/${coverage.id}`;
+    const endorsed = current.get(coverage.id);
+    const origin = lifecycle.get(coverage.id);
+    if (origin) trace.push(toEntry(reference, "", origin));
+    if (!endorsed) continue;
+    result.push(endorsed);
+
+    const deductible = endorsed.deductible && origins.get(endorsed.deductible);
+    if (deductible) trace.push(toEntry(reference, "deductible", deductible));
+    for (const element of ["limits", "coverageExtensions", "classifications"] as const) {
+      (endorsed[element] ?? []).forEach((value, i) => {
+        const found = origins.get(value);
+        if (found) trace.push(toEntry(reference, `${element}[${i}]`, found));
+      });
+    }
+  }
+
+  return { asOf, coverages: result, trace };
+}
+
+/** Apply a change's terms to a coverage, reporting each value it sets. */
+function applyChange(
+  coverage: Coverage,
+  change: EndorsementChange,
+  set: (value: object) => void,
+): void {
+  if (change.deductible) {
+    coverage.deductible = change.deductible;
+    set(change.deductible);
+  }
+  if (change.limits) {
+    coverage.limits = merge(coverage.limits, change.limits, (a, b) => sameConcept(a.type, b.type));
+    change.limits.forEach(set);
+  }
+  if (change.coverageExtensions) {
+    coverage.coverageExtensions = merge(
+      coverage.coverageExtensions,
+      change.coverageExtensions,
+      (a, b) => sameConcept(a.type, b.type),
+    );
+    change.coverageExtensions.forEach(set);
+  }
+  if (change.classifications) {
+    coverage.classifications = merge(coverage.classifications, change.classifications, sameClass);
+    change.classifications.forEach(set);
+  }
+}
+
+/** Replace the values matching each change, and add the rest. */
+function merge<T>(values: T[] | undefined, changes: T[], same: (a: T, b: T) => boolean): T[] {
+  const result = [...(values ?? [])];
+  for (const change of changes) {
+    const index = result.findIndex((value) => same(value, change));
+    if (index >= 0) result[index] = change;
+    else result.push(change);
+  }
+  return result;
+}
+
+function coverageId(change: EndorsementChange): string | undefined {
+  const target = parseReference(change.coverage);
+  return target?.resourceType === "Coverage" ? target.id : undefined;
+}
+
+function toSource(endorsement: Endorsement, index: number): EndorsementSource {
+  return {
+    index,
+    ...(endorsement.endorsementNumber !== undefined && {
+      endorsementNumber: endorsement.endorsementNumber,
+    }),
+    effectiveDate: endorsement.effectiveDate,
+  };
+}
+
+function toEntry(coverage: string, path: string, origin: Origin): EndorsementTraceEntry {
+  return {
+    coverage,
+    path,
+    action: origin.change.action,
+    endorsement: origin.source,
+    ...(origin.change.description !== undefined && { description: origin.change.description }),
+  };
+}
@@ -0,0 +1,342 @@
+// BIND Endorsements — Diff
+// Builds a draft endorsement from two versions of a policy's coverages.
+
+import { CurrencyCheck, money, PremiumError, policyTerm, toDay } from "../premium/premium";
+import type { CodeableConcept, Money, Period } from "../types/base";
+import type { Coverage, CoverageExtension, CoverageLimit } from "../types/coverage";
+import type { Endorsement, EndorsementChange } from "../types/policy";
+import { conceptLabel, sameClass, sameConcept } from "./match";
+import type { EndorsementErrorCode } from "./types";
+
+export class EndorsementError extends Error {
+  constructor(
+    message: string,
+    public readonly code: EndorsementErrorCode,
+  ) {
+    super(message);
+    this.name = "EndorsementError";
+  }
+}
+
+/**
+ * Options for `diffCoverages`.
+ */
+export interface DiffCoveragesOptions {
+  /** Date the endorsement becomes effective (ISO 8601 date) */
+  effectiveDate: string;
+  /**
+   * The policy's `effectivePeriod`, to pro-rate premium changes over (without
+   * it, premium changes are full-term)
+   */
+  effectivePeriod?: Period;
+  /** Type of endorsement (default "Mid-Term Modification") */
+  type?: CodeableConcept;
+  endorsementNumber?: string;
+  description?: string;
+}
+
+/**
+ * Compare two versions of a policy's coverages and build a draft endorsement
+ * whose changes turn the first into the second.
+ *
+ * Coverages are matched by id. A coverage only in `after` is an `add` change
+ * with its limits, deductible, extensions and classifications; one only in
+ * `before` is a `remove` change. A coverage in both is a `modify` change with:
+ *
+ * - `limits` — Limits added or changed, matched by `CoverageLimit.type`
+ * - `deductible` — The new deductible, if it changed
+ * - `coverageExtensions` — Extensions added, changed or toggled, matched by
+ *   `CoverageExtension.type`; an extension dropped from `after` is included
+ *   with `included: false`
+ * - `classifications` — Classifications added or changed, matched by class code and location
+ *
+ * An `EndorsementChange.premiumChange` is premium for the rest of the term,
+ * not annual premium; this is how `earnedPremium` books it, earning it evenly
+ * from the endorsement's effective date to expiration. Each change's
+ * `premiumChange` is therefore the change in annual `Premium.writtenPremium`
+ * pro-rated by the days from `effectiveDate` to the end of `effectivePeriod`:
+ * an added coverage is charged its pro-rata premium, a removed coverage
+ * returns its pro-rata unearned premium, and a modified coverage is charged
+ * (or returned) the pro-rata difference. Without `effectivePeriod`, changes
+ * are full-term. The endorsement's `premiumChange` is their sum.
+ *
+ * Each change gets a description of what changed. Limits, deductibles and
+ * classifications dropped from `after` cannot be expressed as changes; they
+ * are named in the description only.
+ *
+ * Applying the endorsement to `before` with `applyEndorsements` gives `after`,
+ * apart from premium and dropped values.
+ *
+ * @param before - Coverages before the change
+ * @param after - Coverages after the change (e.g., as edited in a policy admin UI)
+ * @param options - Endorsement fields
+ * @returns A draft endorsement, with no changes if the coverages are the same
+ * @throws EndorsementError if a coverage has no id
+ * @throws PremiumError if `effectiveDate` is not in `effectivePeriod`, or premiums
+ * are in different currencies
+ *
+ * @example
+ * ```ts
+ * const endorsement = diffCoverages(issued, edited, {
+ *   effectiveDate: "2025-09-01",
+ *   effectivePeriod: policy.effectivePeriod, // 2025-07-01 to 2026-07-01
+ * });
+ * // {
+ * //   type: { text: "Mid-Term Modification" },
+ * //   effectiveDate: "2025-09-01",
+ * //   premiumChange: { value: 2075.34, currency: "USD" }, // +2,500 annual for 303 of 365 days
+ * //   changes: [{ coverage: { reference: "Coverage/cov-gl-001", display: "General Liability" }, action: "modify",
+ * //     limits: [...], description: "Increase Each Occurrence limit from USD 1,000,000 to USD 2,000,000", ... }]
+ * // }
+ * policy.endorsements = [...(policy.endorsements ?? []), endorsement];
+ * ```
+ */
+export function diffCoverages(
+  before: Iterable<Coverage>,
+  after: Iterable<Coverage>,
+  options: DiffCoveragesOptions,
+): Endorsement {
+  const share = options.effectivePeriod
+    ? remainingShare(options.effectiveDate, options.effectivePeriod)
+    : 1;
+  const currency = new CurrencyCheck();
+  const previous = byId(before);
+  const next = byId(after);
+  const changes: EndorsementChange[] = [];
+
+  for (const [id, old] of previous) {
+    const updated = next.get(id);
+    const change = updated
+      ? modifyChange(old, updated, share, currency)
+      : removeChange(old, share, currency);
+    if (change) changes.push(change);
+  }
+  for (const [id, coverage] of next) {
+    if (!previous.has(id)) changes.push(addChange(coverage, share, currency));
+  }
+
+  const premiums = changes.flatMap((change) => change.premiumChange ?? []);
+  return {
+    ...(options.endorsementNumber !== undefined && {
+      endorsementNumber: options.endorsementNumber,
+    }),
+    type: options.type ?? { text: "Mid-Term Modification" },
+    effectiveDate: options.effectiveDate,
+    ...(options.description !== undefined && { description: options.description }),
+    ...(premiums.length > 0 && {
+      premiumChange: money(
+        premiums.reduce((total, premium) => total + premium.value, 0),
+        currency.code,
+      ),
+    }),
+    changes,
+  };
+}
+
+function addChange(coverage: Coverage, share: number, currency: CurrencyCheck): EndorsementChange {
+  const written = coverage.premium?.writtenPremium;
+  return {
+    coverage: coverageReference(coverage),
+    action: "add",
+    ...(coverage.limits && { limits: structuredClone(coverage.limits) }),
+    ...(coverage.deductible && { deductible: structuredClone(coverage.deductible) }),
+    ...(coverage.coverageExtensions && {
+      coverageExtensions: structuredClone(coverage.coverageExtensions),
+    }),
+    ...(coverage.classifications && {
+      classifications: structuredClone(coverage.classifications),
+    }),
+    ...(written && { premiumChange: prorate(currency.value(written), share, currency) }),
+    description: `Add ${coverageLabel(coverage)} coverage`,
+  };
+}
+
+function removeChange(
+  coverage: Coverage,
+  share: number,
+  currency: CurrencyCheck,
+): EndorsementChange {
+  const written = coverage.premium?.writtenPremium;
+  return {
+    coverage: coverageReference(coverage),
+    action: "remove",
+    ...(written && { premiumChange: prorate(-currency.value(written), share, currency) }),
+    description: `Remove ${coverageLabel(coverage)} coverage`,
+  };
+}
+
+function modifyChange(
+  before: Coverage,
+  after: Coverage,
+  share: number,
+  currency: CurrencyCheck,
+): EndorsementChange | undefined {
+  const notes: string[] = [];
+
+  const limits = changed(before.limits, after.limits, (a, b) => sameConcept(a.type, b.type));
+  for (const { value, previous } of limits.changed) notes.push(describeLimit(value, previous));
+  for (const value of limits.dropped) notes.push(`Remove ${conceptLabel(value.type)} limit`);
+
+  const deductible = equal(before.deductible, after.deductible) ? undefined : after.deductible;
+  if (deductible) {
+    const from = before.deductible?.amount;
+    const to = deductible.amount;
+    notes.push(
+      from && to ? `Change deductible from ${format(from)} to ${format(to)}` : "Change deductible",
+    );
+  } else if (before.deductible && !after.deductible) {
+    notes.push("Remove deductible");
+  }
+
+  const extensions = changed(before.coverageExtensions, after.coverageExtensions, (a, b) =>
+    sameConcept(a.type, b.type),
+  );
+  const toggled: CoverageExtension[] = [
+    ...extensions.changed.map(({ value }) => value),
+    ...extensions.dropped
+      .filter((value) => value.included)
+      .map((value) => ({ ...value, included: false })),
+  ];
+  for (const { value, previous } of extensions.changed) {
+    notes.push(describeExtension(value, previous));
+  }
+  for (const value of extensions.dropped) {
+    if (value.included) notes.push(`Remove ${conceptLabel(value.type)} extension`);
+  }
+
+  const classes = changed(before.classifications, after.classifications, sameClass);
+  for (const { value, previous } of classes.changed) {
+    notes.push(`${previous ? "Change" : "Add"} ${conceptLabel(value.classCode)} classification`);
+  }
+  for (const value of classes.dropped) {
+    notes.push(`Remove ${conceptLabel(value.classCode)} classification`);
+  }
+
+  const annual = difference(
+    before.premium?.writtenPremium,
+    after.premium?.writtenPremium,
+    currency,
+  );
+  const premiumChange = annual === undefined ? undefined : prorate(annual, share, currency);
+  if (notes.length === 0 && !premiumChange?.value) return undefined;
+  if (notes.length === 0) notes.push("Change premium");
+
+  return {
+    coverage: coverageReference(after),
+    action: "modify",
+    ...(limits.changed.length > 0 && {
+      limits: structuredClone(limits.changed.map(({ value }) => value)),
+    }),
+    ...(deductible && { deductible: structuredClone(deductible) }),
+    ...(toggled.length > 0 && { coverageExtensions: structuredClone(toggled) }),
+    ...(classes.changed.length > 0 && {
+      classifications: structuredClone(classes.changed.map(({ value }) => value)),
+    }),
+    ...(premiumChange?.value && { premiumChange }),
+    description: notes.join("; "),
+  };
+}
+
+/** Values of `after` that are new or differ from their match in `before`, and values dropped from `before`. */
+function changed<T>(
+  before: T[] | undefined,
+  after: T[] | undefined,
+  same: (a: T, b: T) => boolean,
+): { changed: { value: T; previous?: T }[]; dropped: T[] } {
+  const previous = before ?? [];
+  const next = after ?? [];
+  return {
+    changed: next.flatMap((value) => {
+      const match = previous.find((old) => same(old, value));
+      return match !== undefined && equal(match, value) ? [] : [{ value, previous: match }];
+    }),
+    dropped: previous.filter((old) => !next.some((value) => same(old, value))),
+  };
+}
+
+function describeLimit(value: CoverageLimit, previous: CoverageLimit | undefined): string {
+  const label = conceptLabel(value.type);
+  if (!previous)
+    return value.amount ? `Add ${label} limit of ${format(value.amount)}` : `Add ${label} limit`;
+  if (previous.amount && value.amount && previous.amount.value !== value.amount.value) {
+    const direction = value.amount.value > previous.amount.value ? "Increase" : "Decrease";
+    return `${direction} ${label} limit from ${format(previous.amount)} to ${format(value.amount)}`;
+  }
+  return `Change ${label} limit`;
+}
+
+function describeExtension(
+  value: CoverageExtension,
+  previous: CoverageExtension | undefined,
+): string {
+  const label = conceptLabel(value.type);
+  if (!previous || previous.included !== value.included) {
+    return `${value.included ? "Add" : "Remove"} ${label} extension`;
+  }
+  return `Change ${label} extension`;
+}
+
+function byId(coverages: Iterable<Coverage>): Map<string, Coverage> {
+  const result = new Map<string, Coverage>();
+  for (const coverage of coverages) {
+    if (!coverage.id)
+      throw new EndorsementError("Cannot diff a Coverage without an id", "missing-id");
+    result.set(coverage.id, coverage);
+  }
+  return result;
+}
+
+function coverageReference(coverage: Coverage): EndorsementChange["coverage"] {
+  const display = conceptLabel(coverage.lineOfBusiness);
+  return {
+    reference: `Coverage/${coverage.id}`,
+    ...(display !== undefined && { display }),
+  };
+}
+
+function coverageLabel(coverage: Coverage): string {
+  return conceptLabel(coverage.lineOfBusiness) ?? `Coverage/${coverage.id}`;
+}
+
+/**
+ * Share of the term from `effectiveDate` to the end of `effectivePeriod`, by
+ * days; the share of annual premium an endorsement's premium change is for.
+ */
+function remainingShare(effectiveDate: string, effectivePeriod: Period): number {
+  const term = policyTerm({ effectivePeriod });
+  const day = toDay(effectiveDate, "effectiveDate");
+  if (day < term.start || day > term.end) {
+    throw new PremiumError(`Policy is not in force on ${effectiveDate}`, "not-in-force");
+  }
+  return (term.end - day) / (term.end - term.start);
+}
+
+/** An annual premium amount pro-rated by a share of the term. */
+function prorate(annual: number, share: number, currency: CurrencyCheck): Money {
+  return money(annual * share, currency.code);
+}
+
+/** Annual `after` minus `before`, or undefined when neither is set. */
+function difference(
+  before: Money | undefined,
+  after: Money | undefined,
+  currency: CurrencyCheck,
+): number | undefined {
+  if (!before && !after) return undefined;
+  return (after ? currency.value(after) : 0) - (before ? currency.value(before) : 0);
+}
+
+function format(amount: Money): string {
+  return `${amount.currency ?? "USD"} ${amount.value.toLocaleString("en-US")}`;
+}
+
+/** Structural equality of JSON values, ignoring key order. */
+function equal(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const left = Object.entries(a).filter(([, value]) => value !== undefined);
+  const right = Object.entries(b).filter(([, value]) => value !== undefined);
+  if (left.length !== right.length) return false;
+  return left.every(([key, value]) => equal(value, (b as Record<string, unknown>)[key]));
+}
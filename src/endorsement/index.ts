@@ -0,0 +1,9 @@
+export { applyEndorsements } from "./apply";
+export type { DiffCoveragesOptions } from "./diff";
+export { diffCoverages, EndorsementError } from "./diff";
+export type {
+  EndorsedCoverages,
+  EndorsementErrorCode,
+  EndorsementSource,
+  EndorsementTraceEntry,
+} from "./types";
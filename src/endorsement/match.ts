@@ -0,0 +1,29 @@
+// BIND Endorsements — Matching
+// Matches the limits, extensions and classifications that endorsements replace.
+
+import type { CodeableConcept } from "../types/base";
+import type { Classification } from "../types/coverage";
+
+/** Whether two concepts share a coding, or (without codings) the same text. */
+export function sameConcept(a: CodeableConcept, b: CodeableConcept): boolean {
+  const codes = (concept: CodeableConcept) =>
+    (concept.coding ?? []).flatMap((c) => (c.code ? [`${c.system ?? ""}|${c.code}`] : []));
+  const left = codes(a);
+  const right = codes(b);
+  if (left.length > 0 && right.length > 0) return left.some((code) => right.includes(code));
+
+  const label = (concept: CodeableConcept) =>
+    (concept.text ?? concept.coding?.[0]?.display)?.trim().toLowerCase();
+  return label(a) !== undefined && label(a) === label(b);
+}
+
+/** Whether two classifications have the same class code and location. */
+export function sameClass(a: Classification, b: Classification): boolean {
+  return sameConcept(a.classCode, b.classCode) && a.location?.reference === b.location?.reference;
+}
+
+/** The text of a concept, or the display or code of its first coding. */
+export function conceptLabel(concept: CodeableConcept): string | undefined {
+  const coding = concept.coding?.[0];
+  return concept.text ?? coding?.display ?? coding?.code;
+}
@@ -0,0 +1,72 @@
+// BIND Endorsements — TypeScript Types
+// Results of replaying policy endorsements.
+
+import type { Coverage } from "../types/coverage";
+import type { EndorsementChange } from "../types/policy";
+
+/**
+ * The endorsement a value came from.
+ */
+export interface EndorsementSource {
+  /** Index of the endorsement in `Policy.endorsements` */
+  index: number;
+
+  /** The endorsement's number, if it has one */
+  endorsementNumber?: string;
+
+  /** The endorsement's effective date */
+  effectiveDate: string;
+}
+
+/**
+ * A value of an effective coverage set by an endorsement.
+ *
+ * @example
+ * {
+ *   "coverage": "Coverage/cov-gl-001",
+ *   "path": "limits[0]",
+ *   "action": "modify",
+ *   "endorsement": { "index": 1, "endorsementNumber": "END-002", "effectiveDate": "2025-09-01" },
+ *   "description": "Increase each-occurrence limit from $1M to $2M"
+ * }
+ */
+export interface EndorsementTraceEntry {
+  /** The coverage, as `Coverage/{id}` */
+  coverage: string;
+
+  /**
+   * Path of the value in the coverage (e.g., `limits[0]`, `deductible`), or
+   * `""` for a coverage added or removed by the endorsement
+   */
+  path: string;
+
+  /** The change's action */
+  action: EndorsementChange["action"];
+
+  /** The endorsement that set the value */
+  endorsement: EndorsementSource;
+
+  /** The change's description */
+  description?: string;
+}
+
+/**
+ * Coverages in force on a date, after replaying the policy's endorsements.
+ */
+export interface EndorsedCoverages {
+  /** Date the coverages are in force on */
+  asOf: string;
+
+  /** Coverages in force, with every endorsement effective on or before `asOf` applied */
+  coverages: Coverage[];
+
+  /**
+   * Values set by endorsements, by coverage. Values without an entry come
+   * from the coverage as issued. Coverages added or removed by an endorsement
+   * have an entry with an empty `path`.
+   */
+  trace: EndorsementTraceEntry[];
+}
+
+/** Why building an endorsement failed */
+export type EndorsementErrorCode = "missing-id";
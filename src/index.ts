@@ -1,19 +1,162 @@
 // @bind-standard /sdk
-// TypeScript SDK for the BIND Standard — types, interfaces, and terminology client.
+// TypeScript SDK for the BIND Standard — types, interfaces, validation, JSON Schema, and terminology client.
 
+// --- Resource Server Client ---
 export type {
+  BindClientOptions,
+  BindErrorResponse,
+  DeleteOptions,
+  UpdateOptions,
+} from "./client/index";
+export { BindClient, BindClientError } from "./client/index";
+// --- Endorsements ---
+export type {
+  DiffCoveragesOptions,
+  EndorsedCoverages,
+  EndorsementErrorCode,
+  EndorsementSource,
+  EndorsementTraceEntry,
+} from "./endorsement/index";
+export { applyEndorsements, diffCoverages, EndorsementError } from "./endorsement/index";
+// --- Premium ---
+export type {
+  AdjustmentStage,
+  CancellationMethod,
+  CancellationOptions,
+  CancellationPremium,
+  CoverageCancellation,
+  CoveragePremiumSummary,
+  PolicyCancellation,
+  PolicyPremiumSummary,
+  PremiumErrorCode,
+  PremiumSummary,
+  RatingOptions,
+  RatingStage,
+  RatingStep,
+  RatingWorksheet,
+  ShortRateRow,
+  ShortRateTable,
+} from "./premium/index";
+export {
+  earnedPremium,
+  PremiumError,
+  rateBasisDivisor,
+  rateCoverage,
+  returnPremium,
+  SHORT_RATE_90_10,
+  shortRateTable,
+} from "./premium/index";
+// --- Resource Union, Type Guards & References ---
+export type {
+  BindResource,
+  Bundle,
+  BundleEntry,
+  DanglingReference,
+  IntegrityIssue,
+  IntegrityIssueCode,
+  IntegrityResult,
+  LocalizeOptions,
+  ResolvedReference,
+  ResolvedReferences,
+  ResourceOf,
+  ResourceSource,
+  ResourceType,
+  ResourceTypeMap,
+} from "./resources/index";
+export {
+  bundleSource,
+  checkIntegrity,
+  isBindResource,
+  isCertificate,
+  isClaim,
+  isCoverage,
+  isInsured,
+  isLocation,
+  isNote,
+  isOrganization,
+  isPerson,
+  isPersonRole,
+  isPolicy,
+  isQuote,
+  isResourceType,
+  isRisk,
+  isSubmission,
+  localizeResource,
+  parseReference,
+  parseResource,
+  RESOURCE_TYPES,
+  ReferenceResolver,
+  referenceTo,
+} from "./resources/index";
+// --- JSON Schema ---
+export type { JsonSchema, JsonSchemaOptions } from "./schema/index";
+export { schemas, toJsonSchema } from "./schema/index";
+// --- Resource Store ---
+export type {
+  ResourceStoreErrorCode,
+  ResourceStoreOptions,
+  SearchParams,
+  SearchParamType,
+  SearchResults,
+  WriteOptions,
+} from "./store/index";
+export { ResourceStore, ResourceStoreError } from "./store/index";
+export type {
+  CodeModuleOptions,
   CodeSystem,
   CodeSystemConcept,
   CodeSystemSummary,
+  ConceptMap,
+  ConceptMapElement,
+  ConceptMapEquivalence,
+  ConceptMapGroup,
+  ConceptMapTarget,
   Designation,
+  LookupManyOptions,
+  LookupRequest,
   LookupResult,
+  RetryOptions,
+  TerminologyApi,
+  TerminologyCache,
+  TerminologyCacheEntry,
   TerminologyClientOptions,
   TerminologyError,
+  TerminologyRequestOptions,
+  TerminologySearchHit,
+  TerminologySearchOptions,
+  TerminologySnapshot,
+  TranslateMatch,
+  TranslateResult,
+  ValueSet,
+  ValueSetCompose,
+  ValueSetConcept,
+  ValueSetExpansion,
+  ValueSetFilter,
+  ValueSetInclude,
+  ValueSetValidationResult,
 } from "./terminology/index";
 // --- Terminology Server Types & Client ---
 export {
+  codeSystemId,
+  createSnapshot,
+  designationFor,
+  expandValueSet,
+  LocalTerminologyClient,
+  localizeConcept,
+  MemoryCache,
+  parseSnapshot,
+  renderCodeModule,
+  serializeSnapshot,
   TerminologyClient,
   TerminologyClientError,
+  TerminologyNetworkError,
+  TerminologyNotFoundError,
+  TerminologyRateLimitError,
+  TerminologyResponseError,
+  TerminologySearchIndex,
+  TerminologyTimeoutError,
+  translateCoding,
+  validateCode,
 } from "./terminology/index";
 // --- BIND Standard Types ---
 export type {
@@ -118,3 +261,32 @@ export type {
   UcumUnit,
 } from "./types/index";
 export { BIND_INSURANCE_UNITS_SYSTEM, UCUM_SYSTEM } from "./types/index";
+// --- Runtime Validation ---
+export type {
+  BindingStrength,
+  ConstraintViolation,
+  ElementBinding,
+  ElementConstraints,
+  ElementDefinition,
+  ElementFormat,
+  ElementType,
+  TerminologyValidationOptions,
+  TypeDefinition,
+  ValidateOptions,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationResult,
+  WalkNode,
+} from "./validation/index";
+export {
+  checkConstraints,
+  checkPrimitive,
+  definitions,
+  getResourceDefinition,
+  isValidFormat,
+  primitives,
+  ValidationError,
+  validate,
+  validateTerminology,
+  walkResource,
+} from "./validation/index";
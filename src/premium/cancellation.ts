@@ -0,0 +1,264 @@
+// BIND Premium — Cancellation
+// Return premium of cancelled policies by pro-rata, short-rate or flat cancellation.
+
+import { referenceTo } from "../resources/references";
+import type { Coverage } from "../types/coverage";
+import type { Policy } from "../types/policy";
+import {
+  CurrencyCheck,
+  coverageTimeline,
+  money,
+  PremiumError,
+  policyTerm,
+  policyTimeline,
+  roundCents,
+  type Timeline,
+  toDay,
+} from "./premium";
+import type {
+  CancellationMethod,
+  CancellationPremium,
+  CoverageCancellation,
+  PolicyCancellation,
+} from "./types";
+
+/**
+ * A short-rate table: the share of premium earned when a policy is cancelled
+ * after some days in force.
+ */
+export interface ShortRateTable {
+  /** Name used in the transaction description (e.g., "90/10") */
+  name: string;
+
+  /**
+   * Share of premium earned (0 to 1) after `days` in force of a `termDays`-day
+   * term. Shares below pro-rata are raised to pro-rata.
+   */
+  earned(days: number, termDays: number): number;
+}
+
+/** A row of a short-rate table. */
+export interface ShortRateRow {
+  /** Days in force, up to and including, for a 365-day term */
+  days: number;
+  /** Share of annual premium earned (0 to 1) */
+  earned: number;
+}
+
+/**
+ * Options for `returnPremium`.
+ */
+export interface CancellationOptions {
+  /** How return premium is calculated (default `pro-rata`) */
+  method?: CancellationMethod;
+  /** Table for `short-rate` cancellations (default `SHORT_RATE_90_10`) */
+  shortRateTable?: ShortRateTable;
+  /** Date the cancellation takes effect (defaults to `Policy.cancelledDate`) */
+  effectiveDate?: string;
+}
+
+/**
+ * The 90/10 short-rate method: 90% of the pro-rata unearned premium is
+ * returned, so the insurer keeps a 10% penalty on top of the earned premium.
+ */
+export const SHORT_RATE_90_10: ShortRateTable = {
+  name: "90/10",
+  earned: (days, termDays) => {
+    const prorata = Math.min(days / termDays, 1);
+    return prorata + 0.1 * (1 - prorata);
+  },
+};
+
+/**
+ * Create a short-rate table from rows of days in force and share of premium
+ * earned, as published for a one-year term. Terms of other lengths are scaled
+ * to 365 days. After the last row, premium is fully earned.
+ *
+ * @param name - Name used in the transaction description
+ * @param rows - Rows, by days in force
+ *
+ * @example
+ * ```ts
+ * const table = shortRateTable("Carrier short-rate", [
+ *   { days: 1, earned: 0.05 },
+ *   { days: 30, earned: 0.19 },
+ *   { days: 60, earned: 0.27 },
+ *   // ...
+ *   { days: 365, earned: 1 },
+ * ]);
+ * returnPremium(policy, coverages, { method: "short-rate", shortRateTable: table });
+ * ```
+ */
+export function shortRateTable(name: string, rows: ShortRateRow[]): ShortRateTable {
+  const sorted = [...rows].sort((a, b) => a.days - b.days);
+  return {
+    name,
+    earned: (days, termDays) => {
+      const scaled = (days * 365) / termDays;
+      return sorted.find((row) => row.days >= scaled)?.earned ?? 1;
+    },
+  };
+}
+
+/**
+ * Calculate the return premium of a cancelled policy and the `cancellation`
+ * `PolicyTransaction` that books it.
+ *
+ * The cancellation takes effect on `Policy.cancelledDate` (or
+ * `options.effectiveDate`), and its `reason` is `Policy.cancellationReason`.
+ * Premium written up to that date is split into earned and returned premium:
+ *
+ * - `pro-rata` — The insurer keeps the premium earned by daily pro-rata
+ * - `short-rate` — The insurer keeps more than pro-rata, by the short-rate
+ *   table's share of the term's premium
+ * - `flat` — The insurer keeps nothing
+ *
+ * For pro-rata and short-rate cancellations, each coverage keeps at least its
+ * `Premium.minimumPremium` and the policy keeps at least its
+ * `Policy.minimumPremium`, up to the premium written. Coverage minimums are
+ * added to the policy's earned premium.
+ *
+ * Endorsements, cancellations and reinstatements effective before the
+ * cancellation are taken into account; later ones (including a cancellation
+ * transaction already on the policy) are ignored. The returned transaction can
+ * be appended to `Policy.transactions`, after which `earnedPremium` reports the
+ * same earned premium.
+ *
+ * @param policy - The policy
+ * @param coverages - The policy's coverages
+ * @param options - Optional parameters
+ * @param options.method - Cancellation method (default `pro-rata`)
+ * @param options.shortRateTable - Short-rate table (default `SHORT_RATE_90_10`)
+ * @param options.effectiveDate - Cancellation date (defaults to `Policy.cancelledDate`)
+ * @throws PremiumError if the policy has no cancellation date, is not in force on it,
+ * has no effective period or premium, or amounts are in different currencies
+ *
+ * @example
+ * ```ts
+ * const cancellation = returnPremium(policy, coverages, { method: "short-rate" });
+ * cancellation.returnPremium; // { value: 39656.01, currency: "USD" }
+ *
+ * store.update({
+ *   ...policy,
+ *   transactions: [...(policy.transactions ?? []), cancellation.transaction],
+ * });
+ * ```
+ */
+export function returnPremium(
+  policy: Policy,
+  coverages: Iterable<Coverage> = [],
+  options?: CancellationOptions,
+): PolicyCancellation {
+  const method = options?.method ?? "pro-rata";
+  const table = options?.shortRateTable ?? SHORT_RATE_90_10;
+  const date = options?.effectiveDate ?? policy.cancelledDate;
+  if (!date) throw new PremiumError("Policy has no cancelledDate", "missing-date");
+
+  const effectiveDate = date.slice(0, 10);
+  const term = policyTerm(policy);
+  const day = toDay(effectiveDate, "cancelledDate");
+  const currency = new CurrencyCheck(policy.totalPremium?.currency);
+
+  const rows = [...coverages].map((coverage) => {
+    const timeline = coverageTimeline(policy, coverage, term, currency, day);
+    const kept = keptPremium(timeline, day, method, table);
+    const minimum = coverage.premium?.minimumPremium;
+    return {
+      coverage,
+      timeline,
+      kept,
+      ...withMinimum(kept, method, minimum && currency.value(minimum)),
+    };
+  });
+
+  const timeline = policyTimeline(
+    policy,
+    term,
+    currency,
+    rows.map((row) => row.timeline),
+    day,
+  );
+  if (day < term.start || day > term.end || timeline.isCancelled(day)) {
+    throw new PremiumError(`Policy is not in force on ${effectiveDate}`, "not-in-force");
+  }
+
+  const kept = keptPremium(timeline, day, method, table);
+  const topUp = rows.reduce((sum, row) => sum + row.earned - row.kept.earned, 0);
+  const policyMinimum = policy.minimumPremium && currency.value(policy.minimumPremium);
+  const total = withMinimum(
+    { written: kept.written, earned: Math.min(kept.earned + topUp, kept.written) },
+    method,
+    policyMinimum,
+  );
+
+  const summary = summarize(total, currency.code, total.applied || topUp > 0);
+  return {
+    method,
+    effectiveDate,
+    ...summary,
+    coverages: rows.map(
+      (row): CoverageCancellation => ({
+        coverage: `Coverage/${row.coverage.id ?? ""}`,
+        ...summarize(row, currency.code, row.applied),
+      }),
+    ),
+    transaction: {
+      transactionType: "cancellation",
+      policy: referenceTo(policy),
+      effectiveDate,
+      ...(policy.cancellationReason && { reason: policy.cancellationReason }),
+      description: describe(method, table),
+      premiumChange: money(-summary.returnPremium.value, currency.code),
+    },
+  };
+}
+
+/** Premium written and kept by a cancellation, before minimum premiums. */
+function keptPremium(
+  timeline: Timeline,
+  day: number,
+  method: CancellationMethod,
+  table: ShortRateTable,
+): { written: number; earned: number } {
+  const written = timeline.written(day);
+  if (method === "flat") return { written, earned: 0 };
+  const earned = timeline.earned(day);
+  const { start, end } = timeline.term;
+  const elapsed = (day - start) / (end - start);
+  if (method === "pro-rata" || elapsed >= 1) return { written, earned };
+
+  // Scale the pro-rata unearned premium by the table's unearned share relative to pro-rata's
+  const share = Math.min(Math.max(table.earned(day - start, end - start), elapsed), 1);
+  return { written, earned: written - ((written - earned) * (1 - share)) / (1 - elapsed) };
+}
+
+/** Raise earned premium to a minimum premium, up to the premium written. */
+function withMinimum(
+  kept: { written: number; earned: number },
+  method: CancellationMethod,
+  minimum: number | undefined,
+): { written: number; earned: number; applied: boolean } {
+  const floor = method === "flat" || minimum === undefined ? 0 : Math.min(minimum, kept.written);
+  const earned = Math.max(kept.earned, floor);
+  return { written: kept.written, earned, applied: earned > kept.earned };
+}
+
+function summarize(
+  premium: { written: number; earned: number },
+  currency: string,
+  minimumPremiumApplied: boolean,
+): CancellationPremium {
+  const written = roundCents(premium.written);
+  const earned = roundCents(premium.earned);
+  return {
+    written: money(written, currency),
+    earned: money(earned, currency),
+    returnPremium: money(written - earned, currency),
+    minimumPremiumApplied,
+  };
+}
+
+function describe(method: CancellationMethod, table: ShortRateTable): string {
+  if (method === "short-rate") return `Short-rate cancellation (${table.name})`;
+  return method === "flat" ? "Flat cancellation" : "Pro-rata cancellation";
+}
@@ -0,0 +1,19 @@
+export type { CancellationOptions, ShortRateRow, ShortRateTable } from "./cancellation";
+export { returnPremium, SHORT_RATE_90_10, shortRateTable } from "./cancellation";
+export { earnedPremium, PremiumError } from "./premium";
+export type { RatingOptions } from "./rating";
+export { rateBasisDivisor, rateCoverage } from "./rating";
+export type {
+  AdjustmentStage,
+  CancellationMethod,
+  CancellationPremium,
+  CoverageCancellation,
+  CoveragePremiumSummary,
+  PolicyCancellation,
+  PolicyPremiumSummary,
+  PremiumErrorCode,
+  PremiumSummary,
+  RatingStage,
+  RatingStep,
+  RatingWorksheet,
+} from "./types";
@@ -0,0 +1,436 @@
+// BIND Premium — Earned Premium
+// Written, earned, unearned and in-force premium of policies and coverages by daily pro-rata.
+
+import { parseReference } from "../resources/references";
+import type { Money } from "../types/base";
+import type { Coverage } from "../types/coverage";
+import type { Policy } from "../types/policy";
+import type { PolicyPremiumSummary, PremiumErrorCode, PremiumSummary } from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class PremiumError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PremiumErrorCode,
+  ) {
+    super(message);
+    this.name = "PremiumError";
+  }
+}
+
+/** A policy term, in days since the epoch. The end date is the expiration date (not earned). */
+export interface Term {
+  start: number;
+  end: number;
+}
+
+/**
+ * A dated premium event.
+ *
+ * - `change` — A premium change earned evenly from its date to the end of the term
+ * - `cancellation` — Cancels the coverage; `amount` is the return premium (default: pro-rata)
+ * - `reinstatement` — Reinstates cancelled coverage; `amount` is the additional premium (default: pro-rata)
+ */
+export interface PremiumEvent {
+  day: number;
+  type: "change" | "cancellation" | "reinstatement";
+  amount?: number;
+}
+
+/** An amount earned evenly over `[start, end)`; when `start === end` it is earned on `start`. */
+interface Stream {
+  amount: number;
+  start: number;
+  end: number;
+  /** Day the amount is written; the base premium is written from the start */
+  written: number;
+  /** Whether the amount counts towards in-force premium */
+  inForce: boolean;
+}
+
+/**
+ * The premium streams of a policy or coverage over its term, built from its
+ * base premium and dated events.
+ */
+export class Timeline {
+  private readonly streams: Stream[] = [];
+  /** Periods during which the coverage is cancelled, `[start, end)` */
+  private readonly lapses: { start: number; end: number; returned: number }[] = [];
+
+  /**
+   * @param term - The policy term
+   * @param base - Premium at inception, or for a coverage added mid-term, its premium from `start`
+   * @param start - Day coverage starts (defaults to the start of the term)
+   */
+  constructor(
+    readonly term: Term,
+    readonly base: number,
+    readonly start = term.start,
+  ) {
+    this.streams.push({
+      amount: base,
+      start,
+      end: term.end,
+      written: start === term.start ? Number.NEGATIVE_INFINITY : start,
+      inForce: true,
+    });
+  }
+
+  /** Apply events in date order. */
+  apply(events: PremiumEvent[]): this {
+    for (const event of [...events].sort((a, b) => a.day - b.day)) this.add(event);
+    return this;
+  }
+
+  /** Apply an event; events must be added in date order. */
+  add(event: PremiumEvent): void {
+    const { day } = event;
+    const lapse = this.lapses.at(-1);
+    const cancelled = lapse !== undefined && lapse.end === Number.POSITIVE_INFINITY;
+
+    switch (event.type) {
+      case "change":
+        this.streams.push({
+          amount: event.amount ?? 0,
+          start: day,
+          end: this.term.end,
+          written: day,
+          inForce: true,
+        });
+        return;
+      case "cancellation": {
+        if (cancelled) return;
+        // Stop earning the remaining premium, then book any difference (e.g., a penalty) at once
+        const unearned = this.unearned(day);
+        this.adjust(day, -unearned, event.amount ?? -unearned);
+        this.lapses.push({ start: day, end: Number.POSITIVE_INFINITY, returned: unearned });
+        return;
+      }
+      case "reinstatement": {
+        if (!cancelled) return;
+        lapse.end = day;
+        const remaining = this.term.end - day;
+        const cancelledDays = this.term.end - lapse.start;
+        const prorata = cancelledDays > 0 ? (lapse.returned * remaining) / cancelledDays : 0;
+        this.adjust(day, prorata, event.amount ?? prorata);
+        return;
+      }
+    }
+  }
+
+  /** Whether the coverage is cancelled on a day. */
+  isCancelled(day: number): boolean {
+    return this.lapses.some((lapse) => day >= lapse.start && day < lapse.end);
+  }
+
+  /** Premium written on or before a day. */
+  written(day: number): number {
+    return this.streams.reduce((sum, s) => (s.written <= day ? sum + s.amount : sum), 0);
+  }
+
+  /** Premium earned by the start of a day. */
+  earned(day: number): number {
+    return this.streams.reduce((sum, s) => sum + earnedBy(s, day), 0);
+  }
+
+  /** Premium written on or before a day and not yet earned. */
+  unearned(day: number): number {
+    return this.written(day) - this.earned(day);
+  }
+
+  /** Annualized premium in force on a day. */
+  inForce(day: number): number {
+    const { start, end } = this.term;
+    if (day < this.start || day < start || day >= end || this.isCancelled(day)) return 0;
+    return this.streams.reduce(
+      (sum, s) =>
+        s.inForce && s.written <= day && s.end > s.start
+          ? sum + (s.amount * (end - start)) / (s.end - s.start)
+          : sum,
+      0,
+    );
+  }
+
+  /** Book `amount` on `day`: `prorata` earned evenly to the end of the term, the rest at once. */
+  private adjust(day: number, prorata: number, amount: number): void {
+    const { end } = this.term;
+    this.streams.push({ amount: prorata, start: day, end, written: day, inForce: false });
+    if (amount !== prorata) {
+      this.streams.push({
+        amount: amount - prorata,
+        start: day,
+        end: day,
+        written: day,
+        inForce: false,
+      });
+    }
+  }
+}
+
+/**
+ * Calculate the written, earned, unearned and in-force premium of a policy as
+ * of a date, in total and for each of its coverages, by daily pro-rata.
+ *
+ * The policy's base premium is `Policy.totalPremium` (or, without it, the sum of
+ * the coverages' `Premium.writtenPremium`) and is earned evenly over
+ * `Policy.effectivePeriod`; the expiration date itself is not earned, so a
+ * policy is fully earned as of its `end` date. Premium is earned as of the
+ * start of `asOf`.
+ *
+ * Mid-term premium changes are earned evenly from their effective date to expiration:
+ *
+ * - `Endorsement.premiumChange` (or, without it, the sum of its changes' `premiumChange`)
+ * - `PolicyTransaction.premiumChange` of `endorsement` transactions, unless an
+ *   endorsement with the same effective date and premium change is already counted
+ * - `cancellation` transactions stop earning; their `premiumChange` is the return
+ *   premium (pro-rata if omitted), and any difference from pro-rata is earned at once
+ * - `reinstatement` transactions resume earning; their `premiumChange` defaults to pro-rata
+ *
+ * `new-business`, `renewal`, `reissue` and `non-renewal` transactions are not
+ * premium changes. Coverages use their own `writtenPremium` and the endorsement
+ * changes that reference them; a coverage added by an endorsement earns from the
+ * endorsement's effective date, and one removed by an endorsement is cancelled
+ * pro-rata. Policy cancellations cancel every coverage pro-rata, so coverage
+ * totals can differ from the policy total by any short-rate penalty.
+ *
+ * @param policy - The policy
+ * @param asOf - Date to calculate premium as of (ISO 8601 date)
+ * @param coverages - The policy's coverages
+ * @throws PremiumError if the policy has no effective period or premium, a date is invalid,
+ * or amounts are in different currencies
+ *
+ * @example
+ * ```ts
+ * const premium = earnedPremium(policy, "2026-01-01", coverages);
+ * premium.earned; // { value: 44137.76, currency: "USD" }
+ * premium.coverages[0].unearned; // { value: 22320.8, currency: "USD" }
+ * ```
+ */
+export function earnedPremium(
+  policy: Policy,
+  asOf: string,
+  coverages: Iterable<Coverage> = [],
+): PolicyPremiumSummary {
+  const term = policyTerm(policy);
+  const day = toDay(asOf, "asOf");
+  const currency = new CurrencyCheck(policy.totalPremium?.currency);
+  const list = [...coverages];
+
+  const coverageTimelines = list.map((coverage) => ({
+    coverage,
+    timeline: coverageTimeline(policy, coverage, term, currency),
+  }));
+
+  const timeline = policyTimeline(
+    policy,
+    term,
+    currency,
+    coverageTimelines.map(({ timeline }) => timeline),
+  );
+  return {
+    asOf,
+    ...summarize(timeline, day, currency.code),
+    coverages: coverageTimelines.map(({ coverage, timeline }) => ({
+      coverage: `Coverage/${coverage.id ?? ""}`,
+      ...summarize(timeline, day, currency.code),
+    })),
+  } satisfies PolicyPremiumSummary;
+}
+
+/**
+ * The timeline of a policy, from its total premium (or, without it, the base
+ * premium of the coverages in force from inception) and its events.
+ *
+ * @param until - Only apply events before this day
+ */
+export function policyTimeline(
+  policy: Policy,
+  term: Term,
+  currency: CurrencyCheck,
+  coverages: Timeline[],
+  until = Number.POSITIVE_INFINITY,
+): Timeline {
+  let base = policy.totalPremium && currency.value(policy.totalPremium);
+  if (base === undefined) {
+    const initial = coverages.filter((timeline) => timeline.start === term.start);
+    if (initial.length === 0) {
+      throw new PremiumError(
+        "Policy has no totalPremium and no coverages with a writtenPremium",
+        "missing-premium",
+      );
+    }
+    base = initial.reduce((sum, timeline) => sum + timeline.base, 0);
+  }
+  return new Timeline(term, base).apply(policyEvents(policy, currency, until));
+}
+
+/** The policy's term, from `Policy.effectivePeriod`. */
+export function policyTerm(policy: Pick<Policy, "effectivePeriod">): Term {
+  const { start, end } = policy.effectivePeriod ?? {};
+  if (!start || !end) {
+    throw new PremiumError("Policy effectivePeriod needs a start and an end", "missing-period");
+  }
+  const term = {
+    start: toDay(start, "effectivePeriod.start"),
+    end: toDay(end, "effectivePeriod.end"),
+  };
+  if (term.end <= term.start) {
+    throw new PremiumError("Policy effectivePeriod ends before it starts", "missing-period");
+  }
+  return term;
+}
+
+/**
+ * Premium events of a policy, from its endorsements and transactions.
+ *
+ * @param until - Only return events before this day
+ */
+export function policyEvents(
+  policy: Policy,
+  currency: CurrencyCheck,
+  until = Number.POSITIVE_INFINITY,
+): PremiumEvent[] {
+  const events: PremiumEvent[] = [];
+  const endorsed = new Set<string>();
+
+  for (const endorsement of policy.endorsements ?? []) {
+    const changes = (endorsement.changes ?? []).flatMap((c) => c.premiumChange ?? []);
+    const amount = endorsement.premiumChange
+      ? currency.value(endorsement.premiumChange)
+      : changes.length > 0
+        ? changes.reduce((sum, change) => sum + currency.value(change), 0)
+        : undefined;
+    if (amount === undefined) continue;
+    events.push({ day: toDay(endorsement.effectiveDate, "effectiveDate"), type: "change", amount });
+    endorsed.add(`${endorsement.effectiveDate}|${amount}`);
+  }
+
+  for (const transaction of policy.transactions ?? []) {
+    const { transactionType, effectiveDate, premiumChange } = transaction;
+    const amount = premiumChange && currency.value(premiumChange);
+    const day = toDay(effectiveDate, "effectiveDate");
+    if (transactionType === "endorsement") {
+      if (amount !== undefined && !endorsed.has(`${effectiveDate}|${amount}`)) {
+        events.push({ day, type: "change", amount });
+      }
+    } else if (transactionType === "cancellation" || transactionType === "reinstatement") {
+      events.push({ day, type: transactionType, amount });
+    }
+  }
+  return events.filter((event) => event.day < until);
+}
+
+/**
+ * The timeline of a coverage, from its premium, its endorsement changes and policy cancellations.
+ *
+ * @param until - Only apply events before this day
+ */
+export function coverageTimeline(
+  policy: Policy,
+  coverage: Coverage,
+  term: Term,
+  currency: CurrencyCheck,
+  until = Number.POSITIVE_INFINITY,
+): Timeline {
+  const events: PremiumEvent[] = [];
+  let added: { day: number; amount?: number } | undefined;
+
+  for (const endorsement of policy.endorsements ?? []) {
+    const day = toDay(endorsement.effectiveDate, "effectiveDate");
+    for (const change of endorsement.changes ?? []) {
+      const target = parseReference(change.coverage);
+      if (target?.resourceType !== "Coverage" || target.id !== coverage.id) continue;
+      const amount = change.premiumChange && currency.value(change.premiumChange);
+      if (change.action === "add") added = { day, amount };
+      else if (change.action === "remove") events.push({ day, type: "cancellation", amount });
+      else if (amount !== undefined) events.push({ day, type: "change", amount });
+    }
+  }
+
+  for (const transaction of policy.transactions ?? []) {
+    const { transactionType } = transaction;
+    if (transactionType === "cancellation" || transactionType === "reinstatement") {
+      events.push({
+        day: toDay(transaction.effectiveDate, "effectiveDate"),
+        type: transactionType,
+      });
+    }
+  }
+
+  const written = coverage.premium?.writtenPremium;
+  const start = added?.day ?? term.start;
+  let base = added?.amount;
+  if (base === undefined) {
+    if (!written) {
+      throw new PremiumError(
+        `Coverage/${coverage.id ?? ""} has no premium.writtenPremium`,
+        "missing-premium",
+      );
+    }
+    // A coverage added without a premium change is charged pro-rata for the rest of the term
+    base = (currency.value(written) * (term.end - start)) / (term.end - term.start);
+  }
+  return new Timeline(term, base, start).apply(events.filter((event) => event.day < until));
+}
+
+/** Checks that amounts share one currency, taken from the first amount if not given. */
+export class CurrencyCheck {
+  constructor(private currency?: string) {}
+
+  /** The currency (default "USD") */
+  get code(): string {
+    return this.currency ?? "USD";
+  }
+
+  /** The amount's value, after checking its currency. */
+  value(money: Money): number {
+    const currency = money.currency ?? "USD";
+    this.currency ??= currency;
+    if (currency !== this.currency) {
+      throw new PremiumError(
+        `Amounts in ${currency} and ${this.currency} cannot be combined`,
+        "currency-mismatch",
+      );
+    }
+    return money.value;
+  }
+}
+
+/** Days since the epoch of an ISO 8601 date (or the date part of a date-time). */
+export function toDay(date: string, field: string): number {
+  const time = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(time)) throw new PremiumError(`Invalid ${field} '${date}'`, "invalid-date");
+  return Math.round(time / DAY);
+}
+
+/** ISO 8601 date of a day since the epoch. */
+export function fromDay(day: number): string {
+  return new Date(day * DAY).toISOString().slice(0, 10);
+}
+
+/** A monetary amount, rounded to cents. */
+export function money(value: number, currency: string): Money {
+  return { value: roundCents(value), currency };
+}
+
+export function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100 || 0;
+}
+
+function summarize(timeline: Timeline, day: number, currency: string): PremiumSummary {
+  const written = roundCents(timeline.written(day));
+  const earned = roundCents(timeline.earned(day));
+  return {
+    written: money(written, currency),
+    earned: money(earned, currency),
+    unearned: money(written - earned, currency),
+    inForce: money(timeline.inForce(day), currency),
+  };
+}
+
+function earnedBy(stream: Stream, day: number): number {
+  if (day < stream.start || (day === stream.start && stream.end > stream.start)) return 0;
+  if (day >= stream.end) return stream.amount;
+  return (stream.amount * (day - stream.start)) / (stream.end - stream.start);
+}
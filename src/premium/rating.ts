@@ -0,0 +1,255 @@
+// BIND Premium — Rating
+// Rates coverage premium from its basis, classifications and adjustments, with a worksheet.
+
+import { conceptLabel } from "../endorsement/match";
+import type { CodeableConcept, Quantity } from "../types/base";
+import type { Coverage } from "../types/coverage";
+import type { PremiumAdjustment } from "../types/premium";
+import { CurrencyCheck, money, PremiumError, roundCents } from "./premium";
+import type { AdjustmentStage, RatingStep, RatingWorksheet } from "./types";
+
+/** Order adjustment factors are applied in. */
+const STAGES: AdjustmentStage[] = ["experience", "schedule", "other"];
+
+/** A classification's contribution to manual premium. */
+interface ClassRow {
+  source: string;
+  label: string;
+  amount: number;
+  exposure?: Quantity;
+  rate?: number;
+}
+
+/**
+ * Options for `rateCoverage`.
+ */
+export interface RatingOptions {
+  /**
+   * Largest difference from `writtenPremium` that still matches (default 0.01,
+   * or 1 for carriers that round premium to whole dollars)
+   */
+  tolerance?: number;
+  /**
+   * Divisor for a rate basis, for bases the built-in parsing does not cover.
+   * Return `undefined` to use the built-in parsing.
+   */
+  divisor?: (rateBasis: CodeableConcept) => number | undefined;
+}
+
+/**
+ * Rate a coverage's premium from `Coverage.premium` and
+ * `Coverage.classifications`, and return a step-by-step worksheet.
+ *
+ * 1. Manual premium — The sum of each classification's exposure divided by the
+ *    rate-basis divisor times its `rate` (or its `premium`, without a rate).
+ *    Without rated classifications, `basis.exposureAmount` divided by the
+ *    divisor times `basis.ratePerUnit`, or else `basis.basePremium`.
+ * 2. Adjustment factors, in order: experience modification, then schedule
+ *    rating (credits, debits and IRPM), then any other factors. Adjustments of
+ *    the same stage keep their order.
+ * 3. Flat adjustment `amount`s.
+ * 4. `Premium.minimumPremium`, if the premium is below it.
+ *
+ * The divisor comes from `basis.rateBasis`: "per $100 of payroll" divides by
+ * 100, "per $1,000 of revenue" by 1,000, "per $1M of sales" by 1,000,000 and a
+ * percentage by 100; other bases ("per vehicle") divide by 1. Every step is
+ * rounded to cents. The result is compared with `Premium.writtenPremium`.
+ *
+ * @param coverage - The coverage to rate
+ * @param options - Optional parameters
+ * @param options.tolerance - Largest difference from `writtenPremium` that matches (default 0.01)
+ * @param options.divisor - Custom rate-basis divisors
+ * @throws PremiumError if the coverage has nothing to rate, or amounts are in different currencies
+ *
+ * @example
+ * ```ts
+ * const worksheet = rateCoverage(coverage);
+ * // steps:
+ * //   Machine Shop NOC: 1,500,000 payroll / 100 × 2.45    USD 36,750.00
+ * //   Experience Modification: × 0.85                     USD 31,237.50
+ * //   Schedule Credit: × 0.95                             USD 29,675.63
+ * //   Terrorism: + USD 250.00                             USD 29,925.63
+ * worksheet.premium; // { value: 29925.63, currency: "USD" }
+ * worksheet.matches; // true when writtenPremium is 29925.63
+ * ```
+ */
+export function rateCoverage(coverage: Coverage, options?: RatingOptions): RatingWorksheet {
+  const premium = coverage.premium;
+  const currency = new CurrencyCheck(premium?.writtenPremium.currency);
+  const basis = premium?.basis;
+  const divisor = basis?.rateBasis
+    ? (options?.divisor?.(basis.rateBasis) ?? rateBasisDivisor(basis.rateBasis))
+    : 1;
+  const basisLabel = basis?.rateBasis && conceptLabel(basis.rateBasis);
+  const steps: RatingStep[] = [];
+  let total = 0;
+
+  const rated = (coverage.classifications ?? []).flatMap((classification, index): ClassRow[] => {
+    const { exposure, rate } = classification;
+    const source = `classifications[${index}]`;
+    const label = conceptLabel(classification.classCode) ?? source;
+    if (exposure && rate !== undefined) {
+      return [{ source, label, amount: (exposure.value / divisor) * rate, exposure, rate }];
+    }
+    if (classification.premium) {
+      return [{ source, label, amount: currency.value(classification.premium) }];
+    }
+    return [];
+  });
+
+  if (rated.length > 0) {
+    for (const { source, label, amount, exposure, rate } of rated) {
+      total = roundCents(total + roundCents(amount));
+      steps.push({
+        stage: "manual",
+        source,
+        description:
+          exposure && rate !== undefined
+            ? `${label}: ${describeExposure(exposure, divisor, rate)}`
+            : `${label}: premium`,
+        ...(rate !== undefined && { rate, divisor }),
+        premium: money(total, currency.code),
+      });
+    }
+  } else if (basis?.exposureAmount && basis.ratePerUnit !== undefined) {
+    total = roundCents((basis.exposureAmount.value / divisor) * basis.ratePerUnit);
+    steps.push({
+      stage: "manual",
+      source: "premium.basis",
+      description: describeExposure(basis.exposureAmount, divisor, basis.ratePerUnit),
+      rate: basis.ratePerUnit,
+      divisor,
+      premium: money(total, currency.code),
+    });
+  } else if (basis?.basePremium) {
+    total = roundCents(currency.value(basis.basePremium));
+    steps.push({
+      stage: "manual",
+      source: "premium.basis.basePremium",
+      description: "Base premium",
+      premium: money(total, currency.code),
+    });
+  } else {
+    throw new PremiumError(
+      `Coverage/${coverage.id ?? ""} has no classifications, exposure and rate, or basePremium to rate`,
+      "missing-rate",
+    );
+  }
+  const manualPremium = total;
+
+  const adjustments = (premium?.adjustments ?? []).map((adjustment, index) => ({
+    adjustment,
+    index,
+    stage: adjustmentStage(adjustment),
+  }));
+  for (const stage of STAGES) {
+    for (const { adjustment, index } of adjustments.filter((entry) => entry.stage === stage)) {
+      if (adjustment.factor === undefined) continue;
+      total = roundCents(total * adjustment.factor);
+      steps.push({
+        stage,
+        source: `premium.adjustments[${index}]`,
+        description: `${adjustmentLabel(adjustment)}: × ${adjustment.factor}`,
+        factor: adjustment.factor,
+        premium: money(total, currency.code),
+      });
+    }
+  }
+  for (const { adjustment, index } of adjustments) {
+    if (!adjustment.amount) continue;
+    const amount = currency.value(adjustment.amount);
+    total = roundCents(total + amount);
+    steps.push({
+      stage: "amount",
+      source: `premium.adjustments[${index}]`,
+      description: `${adjustmentLabel(adjustment)}: ${amount < 0 ? "-" : "+"} ${format(Math.abs(amount), currency.code)}`,
+      amount: money(amount, currency.code),
+      premium: money(total, currency.code),
+    });
+  }
+
+  const minimum = premium?.minimumPremium && currency.value(premium.minimumPremium);
+  const minimumPremiumApplied = minimum !== undefined && total < minimum;
+  if (minimumPremiumApplied) {
+    total = roundCents(minimum);
+    steps.push({
+      stage: "minimum",
+      source: "premium.minimumPremium",
+      description: `Minimum premium of ${format(minimum, currency.code)}`,
+      premium: money(total, currency.code),
+    });
+  }
+
+  const written = premium?.writtenPremium && currency.value(premium.writtenPremium);
+  const difference = roundCents((written ?? 0) - total);
+  return {
+    coverage: `Coverage/${coverage.id ?? ""}`,
+    ...(basisLabel !== undefined && { rateBasis: basisLabel, divisor }),
+    manualPremium: money(manualPremium, currency.code),
+    premium: money(total, currency.code),
+    minimumPremiumApplied,
+    steps,
+    ...(written !== undefined && {
+      writtenPremium: money(written, currency.code),
+      difference: money(difference, currency.code),
+      matches: Math.abs(difference) <= (options?.tolerance ?? 0.01) + 1e-9,
+    }),
+  };
+}
+
+/**
+ * The divisor of a rate basis: the amount of exposure the rate applies to.
+ *
+ * @example
+ * ```ts
+ * rateBasisDivisor({ text: "per $100 of payroll" }); // 100
+ * rateBasisDivisor({ text: "per $1,000 of revenue" }); // 1000
+ * rateBasisDivisor({ text: "per vehicle" }); // 1
+ * ```
+ */
+export function rateBasisDivisor(rateBasis: CodeableConcept): number {
+  const candidates = [
+    rateBasis.text,
+    ...(rateBasis.coding ?? []).flatMap((c) => [c.display, c.code]),
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const text = candidate.toLowerCase().replace(/[-_]/g, " ");
+    if (/%|\bpercent\b/.test(text)) return 100;
+    const match = /\bper\s*\$?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|m|thousand|million)?\b/.exec(text);
+    if (match) {
+      const value = Number((match[1] as string).replace(/,/g, ""));
+      const unit = match[2];
+      const scale = unit === "k" || unit === "thousand" ? 1_000 : unit ? 1_000_000 : 1;
+      if (value > 0) return value * scale;
+    }
+  }
+  return 1;
+}
+
+/** Stage an adjustment factor is applied in, from its type. */
+function adjustmentStage(adjustment: PremiumAdjustment): AdjustmentStage {
+  const { type } = adjustment;
+  const text = [type.text, ...(type.coding ?? []).flatMap((c) => [c.code, c.display])]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  if (/experience|\be-?mod\b|\bemr\b/.test(text)) return "experience";
+  if (/schedule|irpm|individual risk/.test(text)) return "schedule";
+  return "other";
+}
+
+function adjustmentLabel(adjustment: PremiumAdjustment): string {
+  return conceptLabel(adjustment.type) ?? adjustment.description ?? "Adjustment";
+}
+
+function describeExposure(exposure: Quantity, divisor: number, rate: number): string {
+  const amount = `${exposure.value.toLocaleString("en-US")}${exposure.unit ? ` ${exposure.unit}` : ""}`;
+  return divisor === 1
+    ? `${amount} × ${rate}`
+    : `${amount} / ${divisor.toLocaleString("en-US")} × ${rate}`;
+}
+
+function format(value: number, currency: string): string {
+  return `${currency} ${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
@@ -0,0 +1,213 @@
+// BIND Premium — TypeScript Types
+// Results and errors for premium calculations.
+
+import type { Money } from "../types/base";
+import type { PolicyTransaction } from "../types/policy-transaction";
+
+/**
+ * Premium of a policy or coverage as of a date.
+ *
+ * - `written` — Premium booked so far: the base premium plus every premium change effective on or before the date
+ * - `earned` — The part of `written` for coverage already provided, by daily pro-rata
+ * - `unearned` — `written` minus `earned`
+ * - `inForce` — Annualized premium for the coverage in force on the date (0 before inception, after expiration or while cancelled)
+ */
+export interface PremiumSummary {
+  written: Money;
+  earned: Money;
+  unearned: Money;
+  inForce: Money;
+}
+
+/**
+ * Premium of one coverage as of a date.
+ */
+export interface CoveragePremiumSummary extends PremiumSummary {
+  /** The coverage, as `Coverage/{id}` */
+  coverage: string;
+}
+
+/**
+ * Premium of a policy as of a date, with the premium of each of its coverages.
+ *
+ * @example
+ * {
+ *   "asOf": "2026-01-01",
+ *   "written": { "value": 88200, "currency": "USD" },
+ *   "earned": { "value": 44137.76, "currency": "USD" },
+ *   "unearned": { "value": 44062.24, "currency": "USD" },
+ *   "inForce": { "value": 88854.79, "currency": "USD" },
+ *   "coverages": [{ "coverage": "Coverage/cov-gl-001", "written": { "value": 44500, "currency": "USD" }, ... }]
+ * }
+ */
+export interface PolicyPremiumSummary extends PremiumSummary {
+  /** Date the premium is calculated as of (ISO 8601 date) */
+  asOf: string;
+
+  /** Premium of each coverage */
+  coverages: CoveragePremiumSummary[];
+}
+
+/**
+ * How return premium is calculated on cancellation.
+ *
+ * - `pro-rata` — Return the unearned premium for the days remaining in the term
+ * - `short-rate` — Return less than pro-rata, by a short-rate table (e.g., when the insured cancels)
+ * - `flat` — Return all written premium, as if the policy never went into effect
+ */
+export type CancellationMethod = "pro-rata" | "short-rate" | "flat";
+
+/**
+ * Premium of a policy or coverage on cancellation.
+ *
+ * - `written` — Premium written up to the cancellation date
+ * - `earned` — Premium kept after cancellation, including any short-rate penalty and minimum premium
+ * - `returnPremium` — `written` minus `earned`, returned to the insured
+ * - `minimumPremiumApplied` — Whether a minimum premium raised `earned`
+ */
+export interface CancellationPremium {
+  written: Money;
+  earned: Money;
+  returnPremium: Money;
+  minimumPremiumApplied: boolean;
+}
+
+/**
+ * Premium of one coverage on cancellation.
+ */
+export interface CoverageCancellation extends CancellationPremium {
+  /** The coverage, as `Coverage/{id}` */
+  coverage: string;
+}
+
+/**
+ * Return premium of a cancelled policy, with the `PolicyTransaction` that books it.
+ *
+ * @example
+ * {
+ *   "method": "short-rate",
+ *   "effectiveDate": "2026-01-01",
+ *   "written": { "value": 88200, "currency": "USD" },
+ *   "earned": { "value": 48543.99, "currency": "USD" },
+ *   "returnPremium": { "value": 39656.01, "currency": "USD" },
+ *   "minimumPremiumApplied": false,
+ *   "coverages": [...],
+ *   "transaction": {
+ *     "transactionType": "cancellation",
+ *     "policy": { "reference": "Policy/pol-2025-1001" },
+ *     "effectiveDate": "2026-01-01",
+ *     "description": "Short-rate cancellation (90/10)",
+ *     "premiumChange": { "value": -39656.01, "currency": "USD" }
+ *   }
+ * }
+ */
+export interface PolicyCancellation extends CancellationPremium {
+  method: CancellationMethod;
+
+  /** Date the cancellation takes effect (ISO 8601 date) */
+  effectiveDate: string;
+
+  /** Premium of each coverage */
+  coverages: CoverageCancellation[];
+
+  /** The cancellation transaction, with the return premium as a negative `premiumChange` */
+  transaction: PolicyTransaction;
+}
+
+/**
+ * Stage of a rating step, in the order applied.
+ *
+ * - `manual` — Manual premium, from classifications, exposure and rate, or base premium
+ * - `experience` — Experience modification factors
+ * - `schedule` — Schedule rating factors (credits, debits, IRPM)
+ * - `other` — Other adjustment factors
+ * - `amount` — Flat adjustment amounts
+ * - `minimum` — Minimum premium
+ */
+export type RatingStage = "manual" | AdjustmentStage | "amount" | "minimum";
+
+/** Stage an adjustment factor is applied in */
+export type AdjustmentStage = "experience" | "schedule" | "other";
+
+/**
+ * A step of a rating worksheet.
+ *
+ * @example
+ * {
+ *   "stage": "manual",
+ *   "source": "classifications[0]",
+ *   "description": "Machine Shop NOC: 1,500,000 payroll / 100 × 2.45",
+ *   "rate": 2.45,
+ *   "divisor": 100,
+ *   "premium": { "value": 36750, "currency": "USD" }
+ * }
+ */
+export interface RatingStep {
+  stage: RatingStage;
+
+  /** Path of the rated value in the coverage (e.g., `classifications[0]`, `premium.adjustments[1]`) */
+  source: string;
+
+  /** What the step does, for display */
+  description: string;
+
+  /** Rate applied to exposure */
+  rate?: number;
+
+  /** Rate-basis divisor the exposure was divided by */
+  divisor?: number;
+
+  /** Adjustment factor applied */
+  factor?: number;
+
+  /** Adjustment amount added */
+  amount?: Money;
+
+  /** Premium after the step */
+  premium: Money;
+}
+
+/**
+ * A coverage's rated premium, step by step, checked against its written premium.
+ */
+export interface RatingWorksheet {
+  /** The coverage, as `Coverage/{id}` */
+  coverage: string;
+
+  /** Text of `Premium.basis.rateBasis` */
+  rateBasis?: string;
+
+  /** Divisor of the rate basis */
+  divisor?: number;
+
+  /** Premium before adjustments */
+  manualPremium: Money;
+
+  /** Rated premium, after adjustments and minimum premium */
+  premium: Money;
+
+  /** Whether `Premium.minimumPremium` raised the premium */
+  minimumPremiumApplied: boolean;
+
+  /** Steps, in the order applied */
+  steps: RatingStep[];
+
+  /** `Premium.writtenPremium` */
+  writtenPremium?: Money;
+
+  /** `writtenPremium` minus the rated premium */
+  difference?: Money;
+
+  /** Whether the rated premium matches `writtenPremium`, within the tolerance */
+  matches?: boolean;
+}
+
+/** Why a premium calculation failed */
+export type PremiumErrorCode =
+  | "missing-period"
+  | "missing-premium"
+  | "missing-rate"
+  | "missing-date"
+  | "invalid-date"
+  | "not-in-force"
+  | "currency-mismatch";
@@ -0,0 +1,137 @@
+// BIND Resources — Type Guards
+// Runtime narrowing of untrusted JSON to BIND resource types.
+
+import { ValidationError, validate } from "../validation/validate";
+import type { BindResource, ResourceOf, ResourceType, ResourceTypeMap } from "./types";
+
+const resourceTypes: { [K in ResourceType]: K } = {
+  Certificate: "Certificate",
+  Claim: "Claim",
+  Coverage: "Coverage",
+  Insured: "Insured",
+  Location: "Location",
+  Note: "Note",
+  Organization: "Organization",
+  Person: "Person",
+  PersonRole: "PersonRole",
+  Policy: "Policy",
+  Quote: "Quote",
+  Risk: "Risk",
+  Submission: "Submission",
+};
+
+/** All BIND resource types, in alphabetical order */
+export const RESOURCE_TYPES: readonly ResourceType[] = Object.values(resourceTypes);
+
+/**
+ * Whether a string is a BIND resource type.
+ */
+export function isResourceType(value: unknown): value is ResourceType {
+  return typeof value === "string" && Object.hasOwn(resourceTypes, value);
+}
+
+/**
+ * Whether a value is a BIND resource, optionally of a specific type.
+ * Only the `resourceType` discriminator is checked; use `validate` or
+ * `parseResource` to check the full structure.
+ */
+export function isBindResource(value: unknown): value is BindResource;
+export function isBindResource<T extends ResourceType>(
+  value: unknown,
+  resourceType: T,
+): value is ResourceOf<T>;
+export function isBindResource(value: unknown, resourceType?: ResourceType): boolean {
+  if (typeof value !== "object" || value === null) return false;
+  const actual = (value as { resourceType?: unknown }).resourceType;
+  return resourceType ? actual === resourceType : isResourceType(actual);
+}
+
+function guard<T extends ResourceType>(resourceType: T) {
+  return (value: unknown): value is ResourceTypeMap[T] => isBindResource(value, resourceType);
+}
+
+/** Whether a value is a `Certificate` (checks `resourceType` only) */
+export const isCertificate = guard("Certificate");
+/** Whether a value is a `Claim` (checks `resourceType` only) */
+export const isClaim = guard("Claim");
+/** Whether a value is a `Coverage` (checks `resourceType` only) */
+export const isCoverage = guard("Coverage");
+/** Whether a value is an `Insured` (checks `resourceType` only) */
+export const isInsured = guard("Insured");
+/** Whether a value is a `Location` (checks `resourceType` only) */
+export const isLocation = guard("Location");
+/** Whether a value is a `Note` (checks `resourceType` only) */
+export const isNote = guard("Note");
+/** Whether a value is an `Organization` (checks `resourceType` only) */
+export const isOrganization = guard("Organization");
+/** Whether a value is a `Person` (checks `resourceType` only) */
+export const isPerson = guard("Person");
+/** Whether a value is a `PersonRole` (checks `resourceType` only) */
+export const isPersonRole = guard("PersonRole");
+/** Whether a value is a `Policy` (checks `resourceType` only) */
+export const isPolicy = guard("Policy");
+/** Whether a value is a `Quote` (checks `resourceType` only) */
+export const isQuote = guard("Quote");
+/** Whether a value is a `Risk` (checks `resourceType` only) */
+export const isRisk = guard("Risk");
+/** Whether a value is a `Submission` (checks `resourceType` only) */
+export const isSubmission = guard("Submission");
+
+/**
+ * Parse and validate a BIND resource, narrowing it by `resourceType`.
+ * Accepts a JSON string or an already-parsed value.
+ *
+ * @param input - JSON text or parsed JSON
+ * @param resourceType - Expected resource type; any BIND resource is accepted if omitted
+ * @throws ValidationError if the input is not valid JSON, is not a valid BIND resource,
+ *   or is not of the expected resource type
+ *
+ * @example
+ * ```ts
+ * const resource = parseResource(message.body);
+ * switch (resource.resourceType) {
+ *   case "Policy":
+ *     handlePolicy(resource); // resource: Policy
+ *     break;
+ *   // ...
+ * }
+ *
+ * const claim = parseResource(body, "Claim"); // claim: Claim
+ * ```
+ */
+export function parseResource(input: unknown): BindResource;
+export function parseResource<T extends ResourceType>(
+  input: unknown,
+  resourceType: T,
+): ResourceOf<T>;
+export function parseResource(input: unknown, resourceType?: ResourceType): BindResource {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      const message = `Invalid JSON: ${(error as Error).message}`;
+      throw new ValidationError(message, [
+        { severity: "error", code: "invalid-resource", path: "$", message },
+      ]);
+    }
+  }
+
+  if (resourceType && isBindResource(value) && value.resourceType !== resourceType) {
+    const message = `Expected resourceType '${resourceType}' but got '${value.resourceType}'`;
+    throw new ValidationError(message, [
+      { severity: "error", code: "invalid-resource", path: "$.resourceType", message },
+    ]);
+  }
+
+  const result = validate(value);
+  if (!result.valid) {
+    const errors = result.issues.filter((i) => i.severity === "error");
+    throw new ValidationError(
+      `Invalid resource: ${errors.map((i) => `${i.path} ${i.message}`).join("; ")}`,
+      result.issues,
+    );
+  }
+
+  return value as BindResource;
+}
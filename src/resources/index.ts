@@ -0,0 +1,43 @@
+export {
+  isBindResource,
+  isCertificate,
+  isClaim,
+  isCoverage,
+  isInsured,
+  isLocation,
+  isNote,
+  isOrganization,
+  isPerson,
+  isPersonRole,
+  isPolicy,
+  isQuote,
+  isResourceType,
+  isRisk,
+  isSubmission,
+  parseResource,
+  RESOURCE_TYPES,
+} from "./guards";
+export { checkIntegrity } from "./integrity";
+export type { LocalizeOptions } from "./localize";
+export { localizeResource } from "./localize";
+export {
+  bundleSource,
+  parseReference,
+  ReferenceResolver,
+  referenceTo,
+} from "./references";
+export type {
+  BindResource,
+  Bundle,
+  BundleEntry,
+  DanglingReference,
+  IntegrityIssue,
+  IntegrityIssueCode,
+  IntegrityResult,
+  ResolvedReference,
+  ResolvedReferences,
+  ResourceOf,
+  ResourceSource,
+  ResourceType,
+  ResourceTypeMap,
+} from "./types";
@@ -0,0 +1,182 @@
+// BIND Resources — Referential Integrity
+// Checks that links between resources in a set agree with each other.
+
+import type { Reference } from "../types/base";
+import { walkResource } from "../validation/walk";
+import { isBindResource } from "./guards";
+import { isBundle, parseReference } from "./references";
+import type {
+  BindResource,
+  Bundle,
+  IntegrityIssue,
+  IntegrityIssueCode,
+  IntegrityResult,
+  ResourceOf,
+  ResourceType,
+} from "./types";
+
+/**
+ * Check referential integrity across a set of linked resources.
+ *
+ * - Every `Reference.type` must agree with the `{ResourceType}/{id}` prefix of `Reference.reference`
+ * - `Coverage.policy` must point back to the `Policy` that lists it in `Policy.coverages`
+ * - `Risk.coverages` must agree with `Coverage.risks`
+ * - `Claim.coverage` must belong to `Claim.policy`
+ * - `Quote.resultingPolicy` must agree with `Policy.originatingQuote`
+ *
+ * Links to resources outside the set are not checked; use `ReferenceResolver`
+ * to find dangling references.
+ *
+ * @example
+ * ```ts
+ * const { valid, issues } = checkIntegrity(bundle);
+ * for (const issue of issues) console.warn(`${issue.resource} ${issue.path}: ${issue.message}`);
+ * ```
+ */
+export function checkIntegrity(resources: Bundle | Iterable<BindResource>): IntegrityResult {
+  const list = (
+    isBundle(resources) ? (resources.entry ?? []).map((e) => e.resource) : [...resources]
+  ).filter((r) => isBindResource(r));
+
+  const index = new Map<string, BindResource>();
+  for (const resource of list) {
+    if (resource.id) index.set(`${resource.resourceType}/${resource.id}`, resource);
+  }
+
+  const issues: IntegrityIssue[] = [];
+
+  for (const resource of list) {
+    const self = resource.id ? `${resource.resourceType}/${resource.id}` : resource.resourceType;
+    const report = (code: IntegrityIssueCode, path: string, message: string) => {
+      const severity = code === "missing-backlink" ? "warning" : "error";
+      issues.push({ severity, code, resource: self, path, message });
+    };
+    const find = <T extends ResourceType>(reference: Reference | undefined, resourceType: T) => {
+      const key = keyOf(reference);
+      const target = key ? index.get(key) : undefined;
+      return target?.resourceType === resourceType ? (target as ResourceOf<T>) : undefined;
+    };
+    // A one-to-one link whose target should point straight back at this resource
+    const checkPair = (
+      reference: Reference | undefined,
+      path: string,
+      backlink: Reference | undefined,
+      backlinkName: string,
+    ) => {
+      const target = keyOf(reference);
+      if (!target || !index.has(target)) return;
+      const back = keyOf(backlink);
+      if (!back) {
+        report("missing-backlink", path, `${target} has no ${backlinkName}`);
+      } else if (back !== self) {
+        report("conflicting-link", path, `${target} has ${backlinkName} ${back}, not ${self}`);
+      }
+    };
+
+    for (const { value, element, path } of walkResource(resource)) {
+      if (element.ref !== "Reference") continue;
+      const reference = value as Reference;
+      const parsed = parseReference(reference);
+      if (reference.type && parsed && reference.type !== parsed.resourceType) {
+        report(
+          "reference-type-mismatch",
+          path,
+          `Reference type '${reference.type}' does not match '${reference.reference}'`,
+        );
+      }
+    }
+
+    if (!resource.id) continue;
+
+    switch (resource.resourceType) {
+      case "Policy":
+        resource.coverages?.forEach((reference, i) => {
+          const coverage = find(reference, "Coverage");
+          const owner = keyOf(coverage?.policy);
+          if (coverage && owner && owner !== self) {
+            report(
+              "conflicting-link",
+              `$.coverages[${i}]`,
+              `${self} lists ${keyOf(reference)} but its policy is ${owner}`,
+            );
+          }
+        });
+        checkPair(
+          resource.originatingQuote,
+          "$.originatingQuote",
+          find(resource.originatingQuote, "Quote")?.resultingPolicy,
+          "resultingPolicy",
+        );
+        break;
+
+      case "Coverage": {
+        const policy = find(resource.policy, "Policy");
+        if (policy && !includes(policy.coverages, self)) {
+          report(
+            "missing-backlink",
+            "$.policy",
+            `${keyOf(resource.policy)} does not list ${self} in coverages`,
+          );
+        }
+        resource.risks?.forEach((reference, i) => {
+          const risk = find(reference, "Risk");
+          if (risk && !includes(risk.coverages, self)) {
+            report(
+              "missing-backlink",
+              `$.risks[${i}]`,
+              `${keyOf(reference)} does not list ${self} in coverages`,
+            );
+          }
+        });
+        break;
+      }
+
+      case "Risk":
+        resource.coverages?.forEach((reference, i) => {
+          const coverage = find(reference, "Coverage");
+          if (coverage && !includes(coverage.risks, self)) {
+            report(
+              "missing-backlink",
+              `$.coverages[${i}]`,
+              `${keyOf(reference)} does not list ${self} in risks`,
+            );
+          }
+        });
+        break;
+
+      case "Claim": {
+        const coverage = find(resource.coverage, "Coverage");
+        const owner = keyOf(coverage?.policy);
+        const policy = keyOf(resource.policy);
+        if (coverage && owner && policy && owner !== policy) {
+          report(
+            "conflicting-link",
+            "$.coverage",
+            `${keyOf(resource.coverage)} belongs to ${owner}, not ${policy}`,
+          );
+        }
+        break;
+      }
+
+      case "Quote":
+        checkPair(
+          resource.resultingPolicy,
+          "$.resultingPolicy",
+          find(resource.resultingPolicy, "Policy")?.originatingQuote,
+          "originatingQuote",
+        );
+        break;
+    }
+  }
+
+  return { valid: !issues.some((i) => i.severity === "error"), issues };
+}
+
+function keyOf(reference: Reference | undefined): string | undefined {
+  const parsed = parseReference(reference);
+  return parsed && `${parsed.resourceType}/${parsed.id}`;
+}
+
+function includes(references: Reference[] | undefined, key: string): boolean {
+  return (references ?? []).some((r) => keyOf(r) === key);
+}
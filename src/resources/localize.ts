@@ -0,0 +1,127 @@
+// BIND Resources — Localization
+// Fills in localized displays for the BIND terminology codings in a resource.
+
+import type { TerminologyApi } from "../terminology/client";
+import { TerminologyNotFoundError } from "../terminology/client";
+import type { LookupResult } from "../terminology/types";
+import type { CodeableConcept, Coding } from "../types/base";
+import { walkResource } from "../validation/walk";
+import { isBundle } from "./references";
+
+const BIND_CODES = "https://bind.codes/";
+
+/**
+ * Options for `localizeResource`.
+ */
+export interface LocalizeOptions {
+  /**
+   * - `replace` (default): overwrite every `display` and `CodeableConcept.text`
+   * - `fill`: only set a `display` or `text` that is missing
+   */
+  mode?: "replace" | "fill";
+}
+
+/** A coding to localize, and the concept it belongs to, if any. */
+interface Target {
+  coding: Coding;
+  concept?: CodeableConcept;
+  system: string;
+}
+
+/**
+ * Localize the displays of every BIND terminology coding in a resource.
+ *
+ * Every `Coding` (alone or in a `CodeableConcept`) whose system is a
+ * `https://bind.codes/` code system gets the concept's display for `lang`,
+ * taken from its designations and falling back to the default display.
+ * Codings without a `system` in an element bound to a BIND code system are
+ * localized too. A `CodeableConcept.text` is set to the display of its first
+ * localized coding. Unknown codes are left as they are.
+ *
+ * Bundles are localized entry by entry. Codes are looked up with one
+ * `lookupMany` call, so each code system is fetched once.
+ *
+ * @param resource - The resource or bundle to localize (not modified)
+ * @param lang - BCP-47 language code (e.g., "fr-CA")
+ * @param client - Terminology client to look up concepts with
+ * @param options - Optional parameters
+ * @param options.mode - Overwrite displays (`replace`, default) or only fill in missing ones (`fill`)
+ * @returns A localized copy of the resource
+ * @throws TerminologyClientError for server failures other than an unknown code
+ *
+ * @example
+ * ```ts
+ * const client = new TerminologyClient();
+ * const french = await localizeResource(policy, policy.language ?? "fr-CA", client);
+ * // french.lineOfBusiness: { coding: [{ ..., display: "Responsabilité civile générale" }], text: "Responsabilité civile générale" }
+ * ```
+ */
+export async function localizeResource<T>(
+  resource: T,
+  lang: string,
+  client: Pick<TerminologyApi, "lookupMany">,
+  options?: LocalizeOptions,
+): Promise<T> {
+  const fill = options?.mode === "fill";
+  const copy = structuredClone(resource);
+  const targets = collectTargets(copy);
+  if (targets.length === 0) return copy;
+
+  const requests = new Map<string, { system: string; code: string }>();
+  for (const { system, coding } of targets) {
+    const key = `${system}|${coding.code}`;
+    if (!requests.has(key)) requests.set(key, { system, code: coding.code });
+  }
+
+  const results = await client.lookupMany(requests.values(), { lang });
+  const concepts = new Map<string, LookupResult>();
+  for (const [key, request] of requests) {
+    const result = results.get(request);
+    if (result?.status === "fulfilled") concepts.set(key, result.value);
+    else if (!(result?.reason instanceof TerminologyNotFoundError)) throw result?.reason;
+  }
+
+  const localizedText = new Set<CodeableConcept>();
+  for (const { system, coding, concept } of targets) {
+    const found = concepts.get(`${system}|${coding.code}`);
+    if (!found) continue;
+    if (!fill || !coding.display) coding.display = found.display;
+    if (concept && !localizedText.has(concept)) {
+      localizedText.add(concept);
+      if (!fill || !concept.text) concept.text = found.display;
+    }
+  }
+  return copy;
+}
+
+/** Codings with a BIND code system in a resource, or in every resource of a bundle. */
+function collectTargets(resource: unknown): Target[] {
+  const resources = isBundle(resource)
+    ? (resource.entry ?? []).map((entry) => entry.resource)
+    : [resource];
+
+  const targets: Target[] = [];
+  for (const item of resources) {
+    // Codings in a CodeableConcept are visited after the concept itself
+    const concepts = new Map<string, { concept: CodeableConcept; bound?: string }>();
+    for (const { value, element, path } of walkResource(item)) {
+      if (element.ref === "CodeableConcept") {
+        concepts.set(path, { concept: value as CodeableConcept, bound: element.binding?.system });
+      } else if (element.ref === "Coding") {
+        const parent = concepts.get(path.replace(/\.coding\[\d+\]$/, ""));
+        const target = toTarget(value, element.binding?.system ?? parent?.bound);
+        if (target) targets.push({ ...target, concept: parent?.concept });
+      }
+    }
+  }
+  return targets;
+}
+
+function toTarget(value: unknown, bound: string | undefined): Target | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const coding = value as Coding;
+  if (typeof coding.code !== "string") return undefined;
+  const system = coding.system ?? bound;
+  if (system === undefined || !system.startsWith(BIND_CODES)) return undefined;
+  return { coding, system };
+}
@@ -0,0 +1,203 @@
+// BIND Resources — Reference Resolution
+// Resolves `Reference` values to the resources they point to.
+
+import type { Reference } from "../types/base";
+import { walkResource } from "../validation/walk";
+import { isBindResource } from "./guards";
+import type {
+  BindResource,
+  Bundle,
+  DanglingReference,
+  ResolvedReference,
+  ResolvedReferences,
+  ResourceOf,
+  ResourceSource,
+  ResourceType,
+} from "./types";
+
+const RELATIVE = /^([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]+)(?:\/_history\/[A-Za-z0-9\-.]+)?$/;
+const ABSOLUTE = /\/([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]+)(?:\/_history\/[A-Za-z0-9\-.]+)?\/?$/;
+
+/**
+ * Split a reference into its resource type and id.
+ * Accepts relative (`Insured/ins-001`) and absolute
+ * (`https://carrier.example.com/bind/Insured/ins-001`) references; a trailing
+ * `_history/{version}` is ignored.
+ *
+ * @returns undefined if the reference is missing or not in `{ResourceType}/{id}` form
+ *
+ * @example
+ * ```ts
+ * parseReference({ reference: "Coverage/cov-gl-001" });
+ * // { resourceType: "Coverage", id: "cov-gl-001" }
+ * ```
+ */
+export function parseReference(
+  reference: Reference | string | undefined,
+): { resourceType: string; id: string } | undefined {
+  const value = typeof reference === "string" ? reference : reference?.reference;
+  if (!value) return undefined;
+  const match = RELATIVE.exec(value) ?? (value.includes("://") ? ABSOLUTE.exec(value) : null);
+  return match ? { resourceType: match[1], id: match[2] } : undefined;
+}
+
+/**
+ * Create a relative reference to a resource.
+ *
+ * @throws Error if the resource has no id
+ *
+ * @example
+ * ```ts
+ * referenceTo(insured, insured.name);
+ * // { reference: "Insured/ins-001", type: "Insured", display: "Acme Manufacturing Corp" }
+ * ```
+ */
+export function referenceTo(resource: BindResource, display?: string): Reference {
+  if (!resource.id) throw new Error(`Cannot reference a ${resource.resourceType} without an id`);
+  return {
+    reference: `${resource.resourceType}/${resource.id}`,
+    type: resource.resourceType,
+    ...(display !== undefined && { display }),
+  };
+}
+
+/**
+ * Create a resource source over a bundle or a list of resources.
+ * Resources are indexed by `{ResourceType}/{id}` and by their bundle entry's `fullUrl`.
+ */
+export function bundleSource(resources: Bundle | Iterable<BindResource>): ResourceSource {
+  const byKey = new Map<string, BindResource>();
+  const byUrl = new Map<string, BindResource>();
+
+  const entries = isBundle(resources)
+    ? (resources.entry ?? [])
+    : Array.from(resources, (resource) => ({ resource, fullUrl: undefined }));
+
+  for (const { resource, fullUrl } of entries) {
+    if (!isBindResource(resource)) continue;
+    if (resource.id) byKey.set(`${resource.resourceType}/${resource.id}`, resource);
+    if (fullUrl) byUrl.set(fullUrl, resource);
+  }
+
+  return {
+    get: (resourceType, id) => byKey.get(`${resourceType}/${id}`),
+    getByUrl: (url) => byUrl.get(url),
+  };
+}
+
+/**
+ * Resolves references between BIND resources against a bundle or a pluggable source.
+ *
+ * @example
+ * ```ts
+ * const resolver = new ReferenceResolver(bundle);
+ *
+ * // Resolve a single reference to a typed resource
+ * const insured = await resolver.resolve(policy.insured, "Insured");
+ *
+ * // Resolve every reference in a resource and report dangling ones
+ * const { resolved, dangling } = await resolver.resolveReferences(policy);
+ * ```
+ */
+export class ReferenceResolver {
+  private readonly source: ResourceSource;
+
+  constructor(source: ResourceSource | Bundle | Iterable<BindResource>) {
+    this.source = isResourceSource(source) ? source : bundleSource(source);
+  }
+
+  /**
+   * Resolve a single reference.
+   *
+   * @param reference - The reference to resolve (e.g., `policy.insured`)
+   * @param resourceType - Expected resource type; a resource of any other type resolves to undefined
+   * @returns The referenced resource, or undefined if it cannot be found
+   */
+  async resolve(reference: Reference | undefined): Promise<BindResource | undefined>;
+  async resolve<T extends ResourceType>(
+    reference: Reference | undefined,
+    resourceType: T,
+  ): Promise<ResourceOf<T> | undefined>;
+  async resolve(
+    reference: Reference | undefined,
+    resourceType?: ResourceType,
+  ): Promise<BindResource | undefined> {
+    const resource = await this.lookup(reference);
+    if (!resource || (resourceType && resource.resourceType !== resourceType)) return undefined;
+    return resource;
+  }
+
+  /**
+   * Resolve a list of references (e.g., `policy.coverages`), skipping any that cannot be found.
+   */
+  async resolveMany<T extends ResourceType>(
+    references: Reference[] | undefined,
+    resourceType: T,
+  ): Promise<ResourceOf<T>[]> {
+    const resources = await Promise.all(
+      (references ?? []).map((r) => this.resolve(r, resourceType)),
+    );
+    return resources.filter((r): r is Awaited<ResourceOf<T>> => r !== undefined);
+  }
+
+  /**
+   * Resolve every `Reference` in a resource, including references nested in
+   * data types such as `Endorsement.changes[].coverage` or `Classification.location`.
+   */
+  async resolveReferences(resource: BindResource): Promise<ResolvedReferences> {
+    const references: { path: string; reference: Reference }[] = [];
+    for (const { value, element, path } of walkResource(resource)) {
+      if (element.ref === "Reference") references.push({ path, reference: value as Reference });
+    }
+
+    const resolved: ResolvedReference[] = [];
+    const dangling: DanglingReference[] = [];
+    const results = await Promise.all(references.map(({ reference }) => this.lookup(reference)));
+
+    references.forEach(({ path, reference }, i) => {
+      const target = results[i];
+      if (target) {
+        resolved.push({ path, reference, resource: target });
+      } else if (!parseReference(reference) && !isUrl(reference.reference)) {
+        dangling.push({ path, reference, reason: "invalid" });
+      } else {
+        dangling.push({ path, reference, reason: "not-found" });
+      }
+    });
+
+    return { resolved, dangling };
+  }
+
+  private async lookup(reference: Reference | undefined): Promise<BindResource | undefined> {
+    const value = reference?.reference;
+    if (!value) return undefined;
+    if (this.source.getByUrl) {
+      const resource = await this.source.getByUrl(value);
+      if (resource) return resource;
+    }
+    const parsed = parseReference(value);
+    return parsed ? this.source.get(parsed.resourceType, parsed.id) : undefined;
+  }
+}
+
+/** Whether a value is a `Bundle`, as opposed to a resource or list of resources. */
+export function isBundle(value: unknown): value is Bundle {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { resourceType?: unknown }).resourceType === "Bundle"
+  );
+}
+
+function isResourceSource(value: unknown): value is ResourceSource {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ResourceSource).get === "function" &&
+    !isBundle(value)
+  );
+}
+
+function isUrl(value: string | undefined): boolean {
+  return !!value && /^[A-Za-z][A-Za-z0-9+.-]*:/.test(value);
+}
@@ -0,0 +1,222 @@
+// BIND Resources — TypeScript Types
+// A discriminated union of every BIND resource.
+
+import type { Reference, Resource } from "../types/base";
+import type { Certificate } from "../types/certificate";
+import type { Claim } from "../types/claim";
+import type { Coverage } from "../types/coverage";
+import type { Insured } from "../types/insured";
+import type { Location } from "../types/location";
+import type { Note } from "../types/note";
+import type { Organization } from "../types/organization";
+import type { Person } from "../types/person";
+import type { PersonRole } from "../types/person-role";
+import type { Policy } from "../types/policy";
+import type { Quote } from "../types/quote";
+import type { Risk } from "../types/risk";
+import type { Submission } from "../types/submission";
+
+/**
+ * Every BIND resource, keyed by its `resourceType`.
+ */
+export interface ResourceTypeMap {
+  Certificate: Certificate;
+  Claim: Claim;
+  Coverage: Coverage;
+  Insured: Insured;
+  Location: Location;
+  Note: Note;
+  Organization: Organization;
+  Person: Person;
+  PersonRole: PersonRole;
+  Policy: Policy;
+  Quote: Quote;
+  Risk: Risk;
+  Submission: Submission;
+}
+
+/** The `resourceType` of a BIND resource (e.g., "Policy", "Claim") */
+export type ResourceType = keyof ResourceTypeMap;
+
+/** The resource interface for a resource type (e.g., `ResourceOf<"Policy">` is `Policy`) */
+export type ResourceOf<T extends ResourceType> = ResourceTypeMap[T];
+
+/**
+ * Any BIND resource, discriminated by `resourceType`.
+ *
+ * @example
+ * ```ts
+ * function summarize(resource: BindResource): string {
+ *   switch (resource.resourceType) {
+ *     case "Policy":
+ *       return resource.policyNumber;
+ *     case "Claim":
+ *       return resource.claimNumber;
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+export type BindResource = ResourceTypeMap[ResourceType];
+
+/**
+ * A container for a set of BIND resources exchanged together,
+ * such as a full policy package with its insured, coverages, risks and locations.
+ *
+ * @example
+ * {
+ *   "resourceType": "Bundle",
+ *   "type": "collection",
+ *   "entry": [
+ *     { "fullUrl": "Policy/pol-2025-1001", "resource": { "resourceType": "Policy", "id": "pol-2025-1001", ... } },
+ *     { "fullUrl": "Insured/ins-001", "resource": { "resourceType": "Insured", "id": "ins-001", ... } }
+ *   ]
+ * }
+ */
+export interface Bundle<T extends BindResource = BindResource> extends Resource {
+  /** Fixed resource type discriminator */
+  resourceType: "Bundle";
+
+  /**
+   * Purpose of the bundle.
+   *
+   * - `collection` — An arbitrary set of related resources
+   * - `searchset` — Results of a search
+   * - `history` — Versions of a resource, newest first
+   */
+  type: "collection" | "searchset" | "history";
+
+  /** Total number of matches, for search results */
+  total?: number;
+
+  /** Resources in the bundle */
+  entry?: BundleEntry<T>[];
+}
+
+/**
+ * A single resource within a bundle.
+ */
+export interface BundleEntry<T extends BindResource = BindResource> {
+  /**
+   * Absolute or relative URL of the resource (e.g., "Policy/pol-2025-1001").
+   * Used to resolve references that do not follow the `{ResourceType}/{id}` form.
+   */
+  fullUrl?: string;
+
+  /** The resource */
+  resource: T;
+}
+
+/**
+ * A source of resources for reference resolution, such as a bundle,
+ * an in-memory store or a remote server.
+ */
+export interface ResourceSource {
+  /**
+   * Get a resource by type and id.
+   * Returns undefined if the resource does not exist.
+   */
+  get(
+    resourceType: string,
+    id: string,
+  ): BindResource | undefined | Promise<BindResource | undefined>;
+
+  /** Get a resource by the URL it was published under (e.g., a bundle entry's `fullUrl`) */
+  getByUrl?(url: string): BindResource | undefined | Promise<BindResource | undefined>;
+}
+
+/**
+ * A reference successfully resolved to a resource.
+ */
+export interface ResolvedReference {
+  /** JSON path of the reference within the referring resource (e.g., "$.coverages[0]") */
+  path: string;
+
+  /** The reference */
+  reference: Reference;
+
+  /** The referenced resource */
+  resource: BindResource;
+}
+
+/**
+ * A reference that could not be resolved.
+ *
+ * - `invalid` — The reference has no `reference` string or it is not `{ResourceType}/{id}` or a URL
+ * - `not-found` — The referenced resource does not exist in the source
+ */
+export interface DanglingReference {
+  /** JSON path of the reference within the referring resource */
+  path: string;
+
+  /** The reference */
+  reference: Reference;
+
+  /** Why the reference could not be resolved */
+  reason: "invalid" | "not-found";
+}
+
+/**
+ * Result of resolving every reference in a resource.
+ */
+export interface ResolvedReferences {
+  /** References that resolved, in document order */
+  resolved: ResolvedReference[];
+
+  /** References that could not be resolved, in document order */
+  dangling: DanglingReference[];
+}
+
+/**
+ * An inconsistency between linked resources.
+ *
+ * @example
+ * {
+ *   "severity": "error",
+ *   "code": "conflicting-link",
+ *   "resource": "Policy/pol-2025-1001",
+ *   "path": "$.coverages[0]",
+ *   "message": "Policy/pol-2025-1001 lists Coverage/cov-gl-001 but its policy is Policy/pol-2024-0999"
+ * }
+ */
+export interface IntegrityIssue {
+  /** `conflicting-link` and `reference-type-mismatch` are errors; `missing-backlink` is a warning */
+  severity: "error" | "warning";
+
+  /** Machine-readable issue category */
+  code: IntegrityIssueCode;
+
+  /** The resource containing the offending reference, as `{ResourceType}/{id}` */
+  resource: string;
+
+  /** JSON path of the offending reference within the resource */
+  path: string;
+
+  /** Human-readable description of the issue */
+  message: string;
+}
+
+/**
+ * Issue categories reported by the integrity checker.
+ *
+ * - `reference-type-mismatch` — `Reference.type` disagrees with the `{ResourceType}/{id}` prefix
+ * - `conflicting-link` — Two resources disagree about a link (e.g., a policy lists a coverage
+ *   whose `policy` is another policy)
+ * - `missing-backlink` — One side of a bidirectional link is missing (e.g., a coverage points
+ *   to a policy that does not list it in `coverages`)
+ */
+export type IntegrityIssueCode =
+  | "reference-type-mismatch"
+  | "conflicting-link"
+  | "missing-backlink";
+
+/**
+ * Result of checking referential integrity across a set of resources.
+ */
+export interface IntegrityResult {
+  /** True when no issue has severity "error" */
+  valid: boolean;
+
+  /** All issues found, grouped by resource in input order */
+  issues: IntegrityIssue[];
+}
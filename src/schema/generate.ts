@@ -0,0 +1,136 @@
+// BIND JSON Schema — Generator
+// Builds JSON Schema (draft 2020-12) documents from the generated structure definitions.
+
+import { definitions, primitives } from "../validation/definitions";
+import type { ElementDefinition } from "../validation/types";
+import type { JsonSchema, JsonSchemaOptions } from "./types";
+
+const DIALECT = "https://json-schema.org/draft/2020-12/schema";
+const DEFAULT_BASE_URI = "https://bind-standard.org/schema";
+/** `hh:mm`, with optional seconds and fraction, as the runtime validator accepts for `@format time` */
+const TIME_PATTERN = "^([01]\\d|2[0-3]):[0-5]\\d(:([0-5]\\d|60)(\\.\\d+)?)?$";
+
+/**
+ * Generate a self-contained JSON Schema document for a BIND resource or data type.
+ * Every data type it uses (`Money`, `CodeableConcept`, `Reference`, ...) is
+ * included once under `$defs`.
+ *
+ * `@format date` elements are emitted as the `BindDate` pattern rather than
+ * `"format": "date"`, because BIND dates may be partial (`YYYY`, `YYYY-MM`).
+ * Likewise, `@format time` elements are emitted as a pattern rather than
+ * `"format": "time"`, because BIND times (`hh:mm`) have no offset and may omit seconds.
+ *
+ * @param typeName - Resource or data type name (e.g., "Policy", "Money")
+ * @throws Error if `typeName` is not a BIND type
+ *
+ * @example
+ * ```ts
+ * import { toJsonSchema } from "@bind-standard/sdk/schema";
+ *
+ * const policySchema = toJsonSchema("Policy", { strict: true });
+ * ```
+ */
+export function toJsonSchema(typeName: string, options?: JsonSchemaOptions): JsonSchema {
+  const definition = definitions[typeName];
+  if (!definition) throw new Error(`Unknown BIND type '${typeName}'`);
+
+  const builder = new SchemaBuilder(typeName, options?.strict ?? false);
+  const root = builder.object(definition.elements);
+
+  const $defs: Record<string, JsonSchema> = {};
+  for (let name = builder.next(); name; name = builder.next()) {
+    $defs[name] = { title: name, ...builder.object(definitions[name].elements) };
+  }
+
+  const baseUri = (options?.baseUri ?? DEFAULT_BASE_URI).replace(/\/$/, "");
+  return {
+    $schema: DIALECT,
+    $id: `${baseUri}/${typeName}`,
+    title: typeName,
+    ...root,
+    ...(Object.keys($defs).length > 0 && { $defs: sortKeys($defs) }),
+  };
+}
+
+class SchemaBuilder {
+  private readonly referenced: string[] = [];
+  private emitted = 0;
+
+  constructor(
+    private readonly rootName: string,
+    private readonly strict: boolean,
+  ) {}
+
+  /** The next referenced data type that has not been emitted yet. */
+  next(): string | undefined {
+    return this.referenced[this.emitted++];
+  }
+
+  object(elements: ElementDefinition[]): JsonSchema {
+    const required = elements.filter((e) => e.required).map((e) => e.name);
+    return {
+      type: "object",
+      properties: Object.fromEntries(elements.map((e) => [e.name, this.element(e)])),
+      ...(required.length > 0 && { required }),
+      ...(this.strict && { additionalProperties: false }),
+    };
+  }
+
+  private element(element: ElementDefinition): JsonSchema {
+    let schema = this.value(element);
+    for (let depth = element.array ?? 0; depth > 0; depth--) {
+      schema = { type: "array", items: schema };
+    }
+    return schema;
+  }
+
+  private value(element: ElementDefinition): JsonSchema {
+    const constraints = element.constraints ?? {};
+    switch (element.type) {
+      case "string":
+        if (constraints.format === "date") {
+          return { type: "string", pattern: primitives.BindDate.pattern };
+        }
+        if (constraints.format === "time") {
+          return { type: "string", pattern: TIME_PATTERN };
+        }
+        return {
+          type: "string",
+          ...(constraints.pattern !== undefined && { pattern: constraints.pattern }),
+          ...(constraints.format !== undefined && { format: constraints.format }),
+        };
+      case "number":
+        return {
+          type: constraints.integer ? "integer" : "number",
+          ...(constraints.minimum !== undefined && { minimum: constraints.minimum }),
+          ...(constraints.maximum !== undefined && { maximum: constraints.maximum }),
+        };
+      case "boolean":
+        return { type: "boolean" };
+      case "code": {
+        const values = element.values ?? [];
+        return values.length === 1
+          ? { type: "string", const: values[0] }
+          : { type: "string", enum: values };
+      }
+      case "complex":
+        if (!element.ref) return this.object(element.elements ?? []);
+        if (element.ref === this.rootName) return { $ref: "#" };
+        if (!this.referenced.includes(element.ref)) this.referenced.push(element.ref);
+        return { $ref: `#/$defs/${element.ref}` };
+    }
+  }
+}
+
+/**
+ * JSON Schema documents for every BIND resource, keyed by resource type.
+ */
+export const schemas: Record<string, JsonSchema> = Object.fromEntries(
+  Object.values(definitions)
+    .filter((d) => d.resourceType)
+    .map((d) => [d.resourceType as string, toJsonSchema(d.name)]),
+);
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,2 @@
+export { schemas, toJsonSchema } from "./generate";
+export type { JsonSchema, JsonSchemaOptions } from "./types";
@@ -0,0 +1,66 @@
+// BIND JSON Schema — TypeScript Types
+// The subset of JSON Schema (draft 2020-12) emitted for BIND types.
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema.
+ */
+export interface JsonSchema {
+  /** Dialect of the root document */
+  $schema?: string;
+
+  /** Canonical identifier of the root document */
+  $id?: string;
+
+  /** Reference to a shared definition (e.g., "#/$defs/Money") */
+  $ref?: string;
+
+  /** Shared definitions referenced from the document */
+  $defs?: Record<string, JsonSchema>;
+
+  /** Name of the BIND type */
+  title?: string;
+
+  /** JSON type of the value */
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+
+  /** Object properties */
+  properties?: Record<string, JsonSchema>;
+
+  /** Names of required object properties */
+  required?: string[];
+
+  /** Whether properties not listed in `properties` are allowed */
+  additionalProperties?: boolean;
+
+  /** Schema of array items */
+  items?: JsonSchema;
+
+  /** Allowed values */
+  enum?: string[];
+
+  /** The only allowed value */
+  const?: string;
+
+  /** Regular expression a string must match */
+  pattern?: string;
+
+  /** Named string format */
+  format?: string;
+
+  /** Inclusive lower bound for numbers */
+  minimum?: number;
+
+  /** Inclusive upper bound for numbers */
+  maximum?: number;
+}
+
+/**
+ * Options for JSON Schema generation.
+ */
+export interface JsonSchemaOptions {
+  /** Base URI for the `$id` of each document. Defaults to "https://bind-standard.org/schema". */
+  baseUri?: string;
+
+  /** Reject properties that are not part of the BIND type (default false) */
+  strict?: boolean;
+}
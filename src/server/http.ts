@@ -0,0 +1,41 @@
+// BIND Server — HTTP Helpers
+// Error responses and JSON replies shared by the resource and terminology servers.
+
+import type { ServerResponse } from "node:http";
+import type { BindErrorResponse } from "../client/types";
+
+/** An error answered with its status and a JSON error body. */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: BindErrorResponse,
+  ) {
+    super(body.error);
+  }
+}
+
+export function send(response: ServerResponse, status: number, body: unknown): void {
+  response
+    .writeHead(status, { "Content-Type": "application/json; charset=utf-8" })
+    .end(JSON.stringify(body));
+}
+
+/** Split a request path into its decoded segments. */
+export function decodePath(path: string): string[] {
+  try {
+    return path.split("/").map(decodeURIComponent);
+  } catch {
+    throw new HttpError(400, {
+      error: "Request path is not validly percent-encoded",
+      code: "invalid-request",
+    });
+  }
+}
+
+export function notFound(path: string): HttpError {
+  return new HttpError(404, { error: `No route for ${path}`, code: "not-found" });
+}
+
+export function notAllowed(method: string, allowed: string): HttpError {
+  return new HttpError(405, { error: `Method ${method} not allowed; use ${allowed}` });
+}
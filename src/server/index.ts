@@ -0,0 +1,8 @@
+export { createResourceHandler, createResourceServer } from "./resource-server";
+export { createTerminologyHandler, createTerminologyServer } from "./terminology-server";
+export type {
+  ResourceServerOptions,
+  TerminologyFault,
+  TerminologyRequestInfo,
+  TerminologyServerOptions,
+} from "./types";
@@ -0,0 +1,230 @@
+// BIND Server — Resource Server
+// A zero-dependency Node HTTP server exposing a ResourceStore over the BIND REST API.
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { isResourceType } from "../resources/guards";
+import type { BindResource, Bundle } from "../resources/types";
+import { ResourceStoreError } from "../store/errors";
+import { ResourceStore } from "../store/store";
+import type { ResourceStoreErrorCode } from "../store/types";
+import { validate } from "../validation/validate";
+import { decodePath, HttpError, notAllowed, notFound, send } from "./http";
+import type { ResourceServerOptions } from "./types";
+
+const STATUS: Record<ResourceStoreErrorCode, number> = {
+  "not-found": 404,
+  conflict: 409,
+  "precondition-failed": 412,
+  "invalid-resource": 400,
+  "invalid-search": 400,
+};
+
+/**
+ * Create a request handler that serves a `ResourceStore` over the BIND REST API.
+ * Use it with `node:http` directly or mount it in an existing server.
+ *
+ * | Request | Response |
+ * | --- | --- |
+ * | `GET /{type}?{params}` | `searchset` bundle |
+ * | `POST /{type}` | 201 with the created resource |
+ * | `GET /{type}/{id}` | The current version |
+ * | `PUT /{type}/{id}` | 200 with the updated resource, or 201 if created |
+ * | `DELETE /{type}/{id}` | 204 |
+ * | `GET /{type}/{id}/_history` | `history` bundle, newest first |
+ * | `GET /{type}/{id}/_history/{versionId}` | That version |
+ *
+ * Responses carry the version as a weak ETag (`W/"3"`) and writes honor `If-Match`.
+ * Errors are JSON bodies of the form `{ "error": "...", "code": "not-found" }`.
+ *
+ * @example
+ * ```ts
+ * import { createServer } from "node:http";
+ * import { createResourceHandler } from "@bind-standard/sdk/server";
+ *
+ * createServer(createResourceHandler({ basePath: "/bind" })).listen(8080);
+ * ```
+ */
+export function createResourceHandler(
+  options?: ResourceServerOptions,
+): (request: IncomingMessage, response: ServerResponse) => void {
+  const store = options?.store ?? new ResourceStore();
+  const basePath = (options?.basePath ?? "").replace(/\/$/, "");
+  const validation = options?.validate ?? true;
+
+  const check = (resource: unknown, resourceType: string): BindResource => {
+    if (
+      typeof resource !== "object" ||
+      resource === null ||
+      (resource as { resourceType?: unknown }).resourceType !== resourceType
+    ) {
+      throw new HttpError(400, {
+        error: `Body must be a ${resourceType} resource`,
+        code: "invalid-resource",
+      });
+    }
+    if (validation !== false) {
+      const result = validate(resource, validation === true ? undefined : validation);
+      if (!result.valid) {
+        throw new HttpError(422, {
+          error: `Invalid ${resourceType}`,
+          code: "invalid-resource",
+          issues: result.issues,
+        });
+      }
+    }
+    return resource as BindResource;
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? "/", `http://${request.headers.host ?? "localhost"}`);
+    if (!url.pathname.startsWith(`${basePath}/`)) throw notFound(url.pathname);
+
+    const base = `${url.origin}${basePath}`;
+    const [resourceType, id, history, versionId, ...rest] = decodePath(
+      url.pathname.slice(basePath.length + 1),
+    );
+
+    if (resourceType === "health" && id === undefined) {
+      return send(response, 200, { status: "ok" });
+    }
+    if (
+      !isResourceType(resourceType) ||
+      rest.length > 0 ||
+      (history !== undefined && history !== "_history")
+    ) {
+      throw notFound(url.pathname);
+    }
+
+    const method = request.method ?? "GET";
+    const ifMatch = header(request, "if-match");
+
+    if (id === undefined || id === "") {
+      if (method === "GET") {
+        const { resources, total } = store.searchWithTotal(resourceType, url.searchParams);
+        return send(response, 200, bundle("searchset", resources, base, total));
+      }
+      if (method === "POST") {
+        const created = store.create(check(await readJson(request), resourceType));
+        return sendResource(response, 201, created, base);
+      }
+      throw notAllowed(method, "GET, POST");
+    }
+
+    if (history !== undefined) {
+      if (method !== "GET") throw notAllowed(method, "GET");
+      if (versionId === undefined) {
+        return send(response, 200, bundle("history", store.history(resourceType, id), base));
+      }
+      return sendResource(response, 200, store.vread(resourceType, id, versionId), base);
+    }
+
+    switch (method) {
+      case "GET": {
+        const resource = store.read(resourceType, id);
+        if (header(request, "if-none-match") === etag(resource)) {
+          response.writeHead(304, { ETag: etag(resource) }).end();
+          return;
+        }
+        return sendResource(response, 200, resource, base);
+      }
+      case "PUT": {
+        const body = check(await readJson(request), resourceType);
+        if (body.id !== undefined && body.id !== id) {
+          throw new HttpError(400, {
+            error: `Body id '${body.id}' does not match '${id}'`,
+            code: "invalid-resource",
+          });
+        }
+        const existed = store.get(resourceType, id) !== undefined;
+        const updated = store.update({ ...body, id }, { ifMatch });
+        return sendResource(response, existed ? 200 : 201, updated, base);
+      }
+      case "DELETE":
+        store.delete(resourceType, id, { ifMatch });
+        response.writeHead(204).end();
+        return;
+      default:
+        throw notAllowed(method, "GET, PUT, DELETE");
+    }
+  };
+
+  return (request, response) => {
+    handle(request, response).catch((error: unknown) => {
+      if (error instanceof HttpError) return send(response, error.status, error.body);
+      if (error instanceof ResourceStoreError) {
+        return send(response, STATUS[error.code], { error: error.message, code: error.code });
+      }
+      send(response, 500, { error: error instanceof Error ? error.message : String(error) });
+    });
+  };
+}
+
+/**
+ * Create a Node HTTP server that serves a `ResourceStore` over the BIND REST API.
+ * See `createResourceHandler` for the endpoints.
+ *
+ * @example
+ * ```ts
+ * import { createResourceServer } from "@bind-standard/sdk/server";
+ * import { ResourceStore } from "@bind-standard/sdk/store";
+ *
+ * const store = new ResourceStore();
+ * const server = createResourceServer({ store }).listen(8080);
+ *
+ * const client = new BindClient({ baseUrl: "http://localhost:8080" });
+ * ```
+ */
+export function createResourceServer(options?: ResourceServerOptions): Server {
+  return createServer(createResourceHandler(options));
+}
+
+function bundle(
+  type: Bundle["type"],
+  resources: BindResource[],
+  base: string,
+  total?: number,
+): Bundle {
+  return {
+    resourceType: "Bundle",
+    type,
+    ...(total !== undefined && { total }),
+    entry: resources.map((resource) => ({
+      fullUrl: `${base}/${resource.resourceType}/${resource.id}`,
+      resource,
+    })),
+  };
+}
+
+function sendResource(
+  response: ServerResponse,
+  status: number,
+  resource: BindResource,
+  base: string,
+): void {
+  const location = `${base}/${resource.resourceType}/${resource.id}`;
+  response.setHeader("ETag", etag(resource));
+  if (resource.meta?.lastUpdated) {
+    response.setHeader("Last-Modified", new Date(resource.meta.lastUpdated).toUTCString());
+  }
+  if (status === 201) response.setHeader("Location", location);
+  send(response, status, resource);
+}
+
+function etag(resource: BindResource): string {
+  return `W/"${resource.meta?.versionId ?? ""}"`;
+}
+
+function header(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, { error: "Request body is not valid JSON", code: "invalid-resource" });
+  }
+}
@@ -0,0 +1,167 @@
+// BIND Server — Mock Terminology Server
+// A zero-dependency Node HTTP server implementing the bind.codes API over fixture code systems.
+
+import { createHash } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { TerminologyNotFoundError } from "../terminology/client";
+import { LocalTerminologyClient } from "../terminology/local";
+import { decodePath, HttpError, notAllowed, notFound, send } from "./http";
+import type { TerminologyRequestInfo, TerminologyServerOptions } from "./types";
+
+/**
+ * Create a request handler that serves fixture code systems over the
+ * bind.codes API, for testing code that uses `TerminologyClient` against real
+ * HTTP — including its caching, retries, timeouts and error handling.
+ *
+ * | Request | Response |
+ * | --- | --- |
+ * | `GET /list` | Code system summaries |
+ * | `GET /{id}?lang=` | The code system |
+ * | `GET /{id}/$lookup?code=&lang=` | Lookup result |
+ * | `GET /$search?q=&lang=` | Lookup results |
+ * | `GET /$translate?code=&target=&system=` | Translate result, from `conceptMaps` |
+ * | `GET /health` | `{ "status": "ok" }` |
+ *
+ * Responses carry an ETag and honor `If-None-Match` with 304. Unknown code
+ * systems and codes are 404s with a `{ "error": "..." }` body.
+ *
+ * The `latency`, `fault` and `rateLimit` options inject slow responses,
+ * failures and 429s, and `onRequest` observes every request.
+ *
+ * @example
+ * ```ts
+ * import { createServer } from "node:http";
+ * import { createTerminologyHandler } from "@bind-standard/sdk/server";
+ *
+ * createServer(createTerminologyHandler({ codeSystems: [roofType] })).listen(8787);
+ * ```
+ */
+export function createTerminologyHandler(
+  options?: TerminologyServerOptions,
+): (request: IncomingMessage, response: ServerResponse) => void {
+  const terminology = new LocalTerminologyClient(options?.codeSystems ?? [], {
+    conceptMaps: options?.conceptMaps,
+  });
+  const basePath = (options?.basePath ?? "").replace(/\/$/, "");
+  const rateLimit = options?.rateLimit;
+  let count = 0;
+  let period = { start: 0, requests: 0 };
+
+  const route = async (info: TerminologyRequestInfo): Promise<unknown> => {
+    const { path, params } = info;
+    const lang = params.get("lang") ?? undefined;
+    const [id, operation, ...rest] = decodePath(path.slice(1));
+
+    if (rest.length > 0 || !id) throw notFound(path);
+    if (operation === undefined) {
+      switch (id) {
+        case "health":
+          return terminology.health();
+        case "list":
+          return terminology.list();
+        case "$search":
+          return terminology.search(required(params, "q"), { lang });
+        case "$translate": {
+          const system = params.get("system") ?? undefined;
+          const code = required(params, "code");
+          return terminology.translate({ system, code }, required(params, "target"));
+        }
+        default:
+          return terminology.get(id, { lang });
+      }
+    }
+    if (operation === "$lookup") return terminology.lookup(id, required(params, "code"), { lang });
+    throw notFound(path);
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? "/", `http://${request.headers.host ?? "localhost"}`);
+    if (!url.pathname.startsWith(`${basePath}/`)) throw notFound(url.pathname);
+
+    const info: TerminologyRequestInfo = {
+      method: request.method ?? "GET",
+      path: url.pathname.slice(basePath.length),
+      params: url.searchParams,
+      headers: request.headers,
+      count: ++count,
+    };
+    options?.onRequest?.(info);
+
+    const latency =
+      typeof options?.latency === "function" ? options.latency(info) : (options?.latency ?? 0);
+    if (latency > 0) await new Promise((resolve) => setTimeout(resolve, latency));
+
+    if (rateLimit) {
+      const now = Date.now();
+      if (now - period.start >= rateLimit.window) period = { start: now, requests: 0 };
+      if (++period.requests > rateLimit.requests) {
+        const retryAfter = Math.ceil((period.start + rateLimit.window - now) / 1000);
+        response.setHeader("Retry-After", String(Math.max(retryAfter, 1)));
+        throw new HttpError(429, { error: "Rate limit exceeded" });
+      }
+    }
+
+    const fault = options?.fault?.(info);
+    if (fault?.reset) {
+      request.socket.destroy();
+      return;
+    }
+    if (fault) {
+      for (const [name, value] of Object.entries(fault.headers ?? {})) {
+        response.setHeader(name, value);
+      }
+      return send(response, fault.status ?? 500, fault.body ?? { error: "Injected fault" });
+    }
+
+    if (info.method !== "GET") {
+      response.setHeader("Allow", "GET");
+      throw notAllowed(info.method, "GET");
+    }
+
+    const text = JSON.stringify(await route(info));
+    const etag = `"${createHash("sha1").update(text).digest("base64url")}"`;
+    response.setHeader("ETag", etag);
+    if (request.headers["if-none-match"] === etag) {
+      response.writeHead(304).end();
+      return;
+    }
+    response.writeHead(200, { "Content-Type": "application/json; charset=utf-8" }).end(text);
+  };
+
+  return (request, response) => {
+    handle(request, response).catch((error: unknown) => {
+      if (error instanceof HttpError) return send(response, error.status, error.body);
+      if (error instanceof TerminologyNotFoundError) {
+        return send(response, 404, { error: error.message });
+      }
+      send(response, 500, { error: error instanceof Error ? error.message : String(error) });
+    });
+  };
+}
+
+/**
+ * Create a Node HTTP server that serves fixture code systems over the
+ * bind.codes API. See `createTerminologyHandler` for the endpoints and hooks.
+ *
+ * @example
+ * ```ts
+ * import { createTerminologyServer } from "@bind-standard/sdk/server";
+ *
+ * // Fail the first request with a 503, then serve normally
+ * const server = createTerminologyServer({
+ *   codeSystems: snapshot,
+ *   fault: ({ count }) => (count === 1 ? { status: 503 } : undefined),
+ * }).listen(8787);
+ *
+ * const client = new TerminologyClient({ baseUrl: "http://localhost:8787" });
+ * ```
+ */
+export function createTerminologyServer(options?: TerminologyServerOptions): Server {
+  return createServer(createTerminologyHandler(options));
+}
+
+function required(params: URLSearchParams, name: string): string {
+  const value = params.get(name);
+  if (value === null) throw new HttpError(400, { error: `Missing '${name}' parameter` });
+  return value;
+}
@@ -0,0 +1,86 @@
+// BIND Server — TypeScript Types
+// Options for the reference BIND resource server and the mock terminology server.
+
+import type { IncomingHttpHeaders } from "node:http";
+import type { ResourceStore } from "../store/store";
+import type { CodeSystem, ConceptMap, TerminologySnapshot } from "../terminology/types";
+import type { ValidateOptions } from "../validation/types";
+
+export interface ResourceServerOptions {
+  /** Store to serve (defaults to a new, empty `ResourceStore`) */
+  store?: ResourceStore;
+
+  /**
+   * Validate resources on create and update, rejecting invalid ones with 422.
+   * Pass validation options, or `false` to accept any resource (default true).
+   */
+  validate?: boolean | ValidateOptions;
+
+  /** Path prefix the API is served under (e.g., "/bind"); defaults to the root */
+  basePath?: string;
+}
+
+export interface TerminologyServerOptions {
+  /** Fixture code systems to serve, or a snapshot of them */
+  codeSystems?: CodeSystem[] | TerminologySnapshot;
+
+  /** Concept maps served by `$translate` */
+  conceptMaps?: ConceptMap[];
+
+  /** Path prefix the API is served under (e.g., "/terminology"); defaults to the root */
+  basePath?: string;
+
+  /** Delay before every response, in milliseconds, or a function of the request */
+  latency?: number | ((request: TerminologyRequestInfo) => number);
+
+  /**
+   * Inject a failure: return a fault to answer the request with it instead of
+   * serving it, or `undefined` to serve it normally.
+   */
+  fault?: (request: TerminologyRequestInfo) => TerminologyFault | undefined;
+
+  /**
+   * Answer with 429 and `Retry-After` once more than `requests` requests
+   * arrive within `window` milliseconds.
+   */
+  rateLimit?: { requests: number; window: number };
+
+  /** Called for every request, before latency, rate limiting and faults */
+  onRequest?: (request: TerminologyRequestInfo) => void;
+}
+
+/**
+ * A request received by the terminology server, passed to its hooks.
+ */
+export interface TerminologyRequestInfo {
+  /** HTTP method */
+  method: string;
+  /** Path below `basePath` (e.g., "/roof-type/$lookup") */
+  path: string;
+  /** Query parameters */
+  params: URLSearchParams;
+  /** Request headers */
+  headers: IncomingHttpHeaders;
+  /** Number of requests received so far, including this one */
+  count: number;
+}
+
+/**
+ * A failure injected by the terminology server's `fault` hook.
+ *
+ * @example
+ * ```ts
+ * // Fail the first two requests, then recover
+ * fault: ({ count }) => (count <= 2 ? { status: 503 } : undefined)
+ * ```
+ */
+export interface TerminologyFault {
+  /** Status code to respond with (default 500) */
+  status?: number;
+  /** Response body (default `{ "error": "Injected fault" }`) */
+  body?: unknown;
+  /** Extra response headers (e.g., `{ "Retry-After": "1" }`) */
+  headers?: Record<string, string>;
+  /** Close the connection without responding, so the client sees a network error */
+  reset?: boolean;
+}
@@ -0,0 +1,14 @@
+// BIND Store — Errors
+// The error thrown by the resource store and its search.
+
+import type { ResourceStoreErrorCode } from "./types";
+
+export class ResourceStoreError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ResourceStoreErrorCode,
+  ) {
+    super(message);
+    this.name = "ResourceStoreError";
+  }
+}
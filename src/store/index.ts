@@ -0,0 +1,10 @@
+export { ResourceStoreError } from "./errors";
+export { ResourceStore } from "./store";
+export type {
+  ResourceStoreErrorCode,
+  ResourceStoreOptions,
+  SearchParams,
+  SearchParamType,
+  SearchResults,
+  WriteOptions,
+} from "./types";
@@ -0,0 +1,481 @@
+// BIND Store — Search
+// Compiles FHIR-style search parameters against the BIND structure definitions.
+
+import { parseReference } from "../resources/references";
+import { definitions } from "../validation/definitions";
+import type { ElementDefinition } from "../validation/types";
+import { getResourceDefinition } from "../validation/validate";
+import { ResourceStoreError } from "./errors";
+import type { SearchParams, SearchParamType } from "./types";
+
+/** A search parameter compiled against a resource definition. */
+export interface SearchCriterion {
+  /** Parameter name including any modifier (e.g., "status:not") */
+  name: string;
+
+  /** Elements from the resource root to the searched element */
+  path: ElementDefinition[];
+
+  type: SearchParamType;
+
+  modifier?: "missing" | "exact" | "contains" | "not";
+
+  /** Values, any of which may match */
+  values: string[];
+}
+
+/** A compiled search, ready to evaluate against resources of one type. */
+export interface CompiledSearch {
+  resourceType: string;
+
+  /** Criteria, all of which must match */
+  criteria: SearchCriterion[];
+
+  sort: { path: ElementDefinition[]; descending: boolean }[];
+
+  count?: number;
+}
+
+type Prefix = "eq" | "ne" | "gt" | "lt" | "ge" | "le";
+
+interface Range {
+  low: number;
+  high: number;
+}
+
+const MODIFIERS: Record<NonNullable<SearchCriterion["modifier"]>, SearchParamType[]> = {
+  missing: ["string", "token", "reference", "date", "number"],
+  exact: ["string"],
+  contains: ["string"],
+  not: ["token"],
+};
+
+const SPECIAL: Record<string, string> = {
+  _id: "id",
+  _lastUpdated: "meta-lastUpdated",
+};
+
+const DATE =
+  /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+/**
+ * Split a search query such as `Policy?status=active` into its resource type and parameters.
+ */
+export function parseSearchQuery(query: string): {
+  resourceType: string;
+  params: URLSearchParams;
+} {
+  const separator = query.indexOf("?");
+  const resourceType = (separator === -1 ? query : query.slice(0, separator)).replace(/^\//, "");
+  const params = new URLSearchParams(separator === -1 ? "" : query.slice(separator + 1));
+  return { resourceType, params };
+}
+
+/**
+ * Compile search parameters for a resource type.
+ *
+ * @throws ResourceStoreError with code `invalid-search` for unknown parameters,
+ *   unsupported modifiers or malformed values
+ */
+export function compileSearch(resourceType: string, params?: SearchParams): CompiledSearch {
+  const definition = getResourceDefinition(resourceType);
+  if (!definition) {
+    throw new ResourceStoreError(`Unknown resource type '${resourceType}'`, "invalid-search");
+  }
+
+  const search: CompiledSearch = { resourceType, criteria: [], sort: [] };
+
+  for (const [key, value] of entriesOf(params)) {
+    if (key === "_count") {
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 0) throw invalid(`Invalid _count '${value}'`);
+      search.count = count;
+      continue;
+    }
+
+    if (key === "_sort") {
+      for (const field of value.split(",").filter(Boolean)) {
+        const descending = field.startsWith("-");
+        const name = descending ? field.slice(1) : field;
+        search.sort.push({
+          path: resolvePath(definition.elements, name, resourceType),
+          descending,
+        });
+      }
+      continue;
+    }
+
+    const [name, modifier] = key.split(":", 2) as [string, string | undefined];
+    const path = resolvePath(definition.elements, SPECIAL[name] ?? name, resourceType);
+    const type = name === "_id" ? "token" : typeOf(path[path.length - 1]);
+
+    if (
+      modifier !== undefined &&
+      !(MODIFIERS as Record<string, SearchParamType[] | undefined>)[modifier]?.includes(type)
+    ) {
+      throw invalid(`Modifier ':${modifier}' is not supported for ${type} parameter '${name}'`);
+    }
+
+    const criterion: SearchCriterion = {
+      name: key,
+      path,
+      type,
+      modifier: modifier as SearchCriterion["modifier"],
+      values: modifier === "missing" ? [value] : value.split(","),
+    };
+
+    for (const v of criterion.values) checkValue(criterion, v);
+    search.criteria.push(criterion);
+  }
+
+  return search;
+}
+
+/**
+ * Whether a resource matches a single criterion.
+ */
+export function matchesCriterion(resource: unknown, criterion: SearchCriterion): boolean {
+  const values = valuesAt(resource, criterion.path);
+  const { type, modifier } = criterion;
+
+  if (modifier === "missing") return (values.length === 0) === (criterion.values[0] === "true");
+
+  if (type === "token" || type === "reference") {
+    const keys = new Set(indexKeys(resource, criterion));
+    const found = criterion.values.some((v) => keys.has(searchKey(v, type)));
+    return modifier === "not" ? !found : found;
+  }
+
+  return criterion.values.some((param) =>
+    values.some((value) => {
+      switch (type) {
+        case "string":
+          return matchesString(value, param, modifier);
+        case "date":
+          return matchesDate(value, param);
+        case "number":
+          return matchesNumber(value, param);
+        default:
+          return false;
+      }
+    }),
+  );
+}
+
+/**
+ * Whether a criterion can be answered from an index of `indexKeys` and `searchKey`.
+ */
+export function isIndexable(criterion: SearchCriterion): boolean {
+  return (
+    (criterion.type === "token" || criterion.type === "reference") &&
+    criterion.modifier === undefined
+  );
+}
+
+/**
+ * Keys under which a resource is indexed for a token or reference criterion.
+ *
+ * - Tokens: `code`, `system|code` (`|code` without a system) and `system|`
+ * - References: `Type/id`, `id` and the reference as written
+ */
+export function indexKeys(resource: unknown, criterion: SearchCriterion): string[] {
+  const element = criterion.path[criterion.path.length - 1];
+  return valuesAt(resource, criterion.path).flatMap((value) =>
+    criterion.type === "reference" ? referenceKeys(value) : tokenKeys(value, element),
+  );
+}
+
+/**
+ * The index key a search value is looked up under.
+ */
+export function searchKey(value: string, type: SearchParamType): string {
+  if (type !== "reference") return value;
+  const parsed = parseReference(value);
+  return parsed ? `${parsed.resourceType}/${parsed.id}` : value;
+}
+
+/**
+ * Compare two resources by the sort order of a compiled search.
+ */
+export function compareResources(a: unknown, b: unknown, sort: CompiledSearch["sort"]): number {
+  for (const { path, descending } of sort) {
+    const left = sortValue(valuesAt(a, path)[0]);
+    const right = sortValue(valuesAt(b, path)[0]);
+    if (left === right) continue;
+    // Missing values sort last in either direction
+    if (left === undefined) return 1;
+    if (right === undefined) return -1;
+    const order = left < right ? -1 : 1;
+    return descending ? -order : order;
+  }
+  return 0;
+}
+
+function resolvePath(
+  elements: ElementDefinition[],
+  name: string,
+  resourceType: string,
+): ElementDefinition[] {
+  const path: ElementDefinition[] = [];
+  let current: ElementDefinition[] | undefined = elements;
+
+  for (const segment of name.split("-")) {
+    const element: ElementDefinition | undefined = current?.find((e) => e.name === segment);
+    if (!element) throw invalid(`Unknown search parameter '${name}' for ${resourceType}`);
+    path.push(element);
+    current = element.ref ? definitions[element.ref]?.elements : element.elements;
+  }
+
+  return path;
+}
+
+function typeOf(element: ElementDefinition): SearchParamType {
+  switch (element.type) {
+    case "number":
+      return "number";
+    case "boolean":
+    case "code":
+      return "token";
+    case "string":
+      return element.constraints?.format === "date" || element.constraints?.format === "date-time"
+        ? "date"
+        : "string";
+    case "complex":
+      switch (element.ref) {
+        case "Reference":
+          return "reference";
+        case "Coding":
+        case "CodeableConcept":
+        case "Identifier":
+          return "token";
+        case "Period":
+        case "DateTimePeriod":
+          return "date";
+        case "Money":
+        case "Quantity":
+          return "number";
+        default:
+          return "string";
+      }
+  }
+}
+
+function checkValue(criterion: SearchCriterion, value: string): void {
+  const { name, type, modifier } = criterion;
+  if (modifier === "missing") {
+    if (value !== "true" && value !== "false") {
+      throw invalid(`'${name}' must be 'true' or 'false'`);
+    }
+  } else if (type === "date") {
+    if (!dateRange(splitPrefix(value)[1])) throw invalid(`Invalid date '${value}' for '${name}'`);
+  } else if (type === "number") {
+    if (Number.isNaN(parseNumber(splitPrefix(value)[1]))) {
+      throw invalid(`Invalid number '${value}' for '${name}'`);
+    }
+  }
+}
+
+function valuesAt(resource: unknown, path: ElementDefinition[]): unknown[] {
+  let values: unknown[] = [resource];
+  for (const element of path) {
+    values = values.flatMap((value) =>
+      isObject(value) ? flatten(value[element.name], element.array ?? 0) : [],
+    );
+  }
+  return values;
+}
+
+function flatten(value: unknown, depth: number): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (depth === 0) return [value];
+  return Array.isArray(value) ? value.flatMap((item) => flatten(item, depth - 1)) : [];
+}
+
+function tokenKeys(value: unknown, element: ElementDefinition): string[] {
+  if (typeof value === "string") return [value];
+  if (typeof value === "boolean") return [String(value)];
+  if (!isObject(value)) return [];
+
+  switch (element.ref) {
+    case "CodeableConcept":
+      return (Array.isArray(value.coding) ? value.coding : []).flatMap((coding) =>
+        isObject(coding) ? systemKeys(coding.system, coding.code) : [],
+      );
+    case "Identifier":
+      return systemKeys(value.system, value.value);
+    default:
+      return systemKeys(value.system, value.code);
+  }
+}
+
+function systemKeys(system: unknown, code: unknown): string[] {
+  if (typeof code !== "string") return [];
+  const keys = [code, `${typeof system === "string" ? system : ""}|${code}`];
+  if (typeof system === "string") keys.push(`${system}|`);
+  return keys;
+}
+
+function referenceKeys(value: unknown): string[] {
+  if (!isObject(value) || typeof value.reference !== "string") return [];
+  const parsed = parseReference(value.reference);
+  return parsed
+    ? [`${parsed.resourceType}/${parsed.id}`, parsed.id, value.reference]
+    : [value.reference];
+}
+
+function matchesString(
+  value: unknown,
+  param: string,
+  modifier: SearchCriterion["modifier"],
+): boolean {
+  return stringsOf(value).some((text) => {
+    if (modifier === "exact") return text === param;
+    const normalized = normalize(text);
+    return modifier === "contains"
+      ? normalized.includes(normalize(param))
+      : normalized.startsWith(normalize(param));
+  });
+}
+
+function stringsOf(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(stringsOf);
+  if (isObject(value)) return Object.values(value).flatMap(stringsOf);
+  return [];
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function matchesDate(value: unknown, param: string): boolean {
+  const [prefix, date] = splitPrefix(param);
+  const search = dateRange(date);
+  const target = targetRange(value);
+  if (!search || !target) return false;
+
+  const contained = target.low >= search.low && target.high <= search.high;
+  switch (prefix) {
+    case "eq":
+      return contained;
+    case "ne":
+      return !contained;
+    case "gt":
+      return target.high > search.high;
+    case "lt":
+      return target.low < search.low;
+    case "ge":
+      return target.high > search.low;
+    case "le":
+      return target.low < search.high;
+  }
+}
+
+function targetRange(value: unknown): Range | undefined {
+  if (typeof value === "string") return dateRange(value);
+  if (!isObject(value)) return undefined;
+  const start = typeof value.start === "string" ? dateRange(value.start) : undefined;
+  const end = typeof value.end === "string" ? dateRange(value.end) : undefined;
+  if (!start && !end) return undefined;
+  return { low: start?.low ?? -Infinity, high: end?.high ?? Infinity };
+}
+
+/** The range of instants covered by a date or date-time at its stated precision. */
+function dateRange(value: string): Range | undefined {
+  const match = DATE.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second, fraction, zone] = match;
+
+  if (hour !== undefined) {
+    const low = Date.parse(
+      `${year}-${month}-${day}T${hour}:${minute}:${second ?? "00"}${fraction ?? ""}${zone ?? "Z"}`,
+    );
+    if (Number.isNaN(low)) return undefined;
+    const precision = fraction ? 1 : second ? 1000 : 60_000;
+    return { low, high: low + precision };
+  }
+
+  const y = Number(year);
+  const m = month === undefined ? 0 : Number(month) - 1;
+  const d = day === undefined ? 1 : Number(day);
+  const low = utc(y, m, d);
+  if (new Date(low).getUTCMonth() !== m) return undefined;
+  const high =
+    month === undefined
+      ? utc(y + 1, 0, 1)
+      : day === undefined
+        ? utc(y, m + 1, 1)
+        : utc(y, m, d + 1);
+  return { low, high };
+}
+
+/** Midnight UTC on a date; unlike `Date.UTC`, years 0–99 are not mapped to 1900–1999. */
+function utc(year: number, month: number, day: number): number {
+  return new Date(0).setUTCFullYear(year, month, day);
+}
+
+function matchesNumber(value: unknown, param: string): boolean {
+  const [prefix, text] = splitPrefix(param);
+  const search = parseNumber(text);
+  const target = typeof value === "number" ? value : isObject(value) ? value.value : undefined;
+  if (typeof target !== "number") return false;
+
+  switch (prefix) {
+    case "eq":
+      return target === search;
+    case "ne":
+      return target !== search;
+    case "gt":
+      return target > search;
+    case "lt":
+      return target < search;
+    case "ge":
+      return target >= search;
+    case "le":
+      return target <= search;
+  }
+}
+
+function parseNumber(text: string): number {
+  return text.trim() === "" ? Number.NaN : Number(text);
+}
+
+function splitPrefix(value: string): [Prefix, string] {
+  const match = /^(eq|ne|gt|lt|ge|le)(.*)$/.exec(value);
+  return match ? [match[1] as Prefix, match[2]] : ["eq", value];
+}
+
+function sortValue(value: unknown): string | number | undefined {
+  if (typeof value === "string" || typeof value === "number") return value;
+  if (typeof value === "boolean") return String(value);
+  if (!isObject(value)) return undefined;
+  for (const key of ["value", "start", "code", "reference", "text", "family", "city"]) {
+    const field = value[key];
+    if (typeof field === "string" || typeof field === "number") return field;
+  }
+  if (Array.isArray(value.coding) && isObject(value.coding[0])) return sortValue(value.coding[0]);
+  return undefined;
+}
+
+function* entriesOf(params: SearchParams | undefined): Generator<[string, string]> {
+  if (!params) return;
+  if (Symbol.iterator in params) {
+    yield* params as Iterable<[string, string]>;
+    return;
+  }
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) yield [key, v];
+  }
+}
+
+function invalid(message: string): ResourceStoreError {
+  return new ResourceStoreError(message, "invalid-search");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,331 @@
+// BIND Store — Resource Store
+// In-memory store of BIND resources with versioning, history and indexed search.
+
+import { isBindResource } from "../resources/guards";
+import type { BindResource, ResourceOf, ResourceSource, ResourceType } from "../resources/types";
+import { ResourceStoreError } from "./errors";
+import type { CompiledSearch, SearchCriterion } from "./search";
+import {
+  compareResources,
+  compileSearch,
+  indexKeys,
+  isIndexable,
+  matchesCriterion,
+  parseSearchQuery,
+  searchKey,
+} from "./search";
+import type { ResourceStoreOptions, SearchParams, SearchResults, WriteOptions } from "./types";
+
+interface Partition {
+  /** Current version of every live resource, by id */
+  current: Map<string, BindResource>;
+
+  /** Every version ever written, oldest first, by id */
+  history: Map<string, BindResource[]>;
+
+  /** Token and reference indexes by parameter name, built on first use */
+  indexes: Map<string, Map<string, Set<string>>>;
+}
+
+/**
+ * In-memory store of BIND resources keyed by `{ResourceType}/{id}`.
+ *
+ * Every write stores a new version with `Meta.versionId` and `Meta.lastUpdated`
+ * set, and earlier versions remain available through `history` and `vread`.
+ * Resources are copied on the way in and out, so callers cannot modify stored versions.
+ *
+ * Search follows FHIR conventions, with parameters named after elements and
+ * `-` separating nested elements (e.g., `address-state`). Token and reference
+ * parameters are answered from indexes that are built on first use and dropped
+ * when resources of that type change.
+ *
+ * @example
+ * ```ts
+ * const store = new ResourceStore();
+ * const policy = store.create(draft); // assigns id, meta.versionId "1" and meta.lastUpdated
+ *
+ * store.search("Policy?status=active&carrier=Organization/carrier-200");
+ * store.search("Claim", { dateOfLoss: "ge2025-01-01" });
+ * store.search("Location", { "address-state": "CT" });
+ *
+ * // Optimistic concurrency
+ * store.update({ ...policy, status: "cancelled" }, { ifMatch: policy.meta?.versionId });
+ * ```
+ */
+export class ResourceStore implements ResourceSource {
+  private readonly partitions = new Map<string, Partition>();
+  private readonly now: () => Date;
+  private readonly generateId: () => string;
+
+  constructor(options?: ResourceStoreOptions) {
+    this.now = options?.now ?? (() => new Date());
+    this.generateId = options?.generateId ?? (() => crypto.randomUUID());
+  }
+
+  /**
+   * Create a resource. An id is assigned if the resource has none.
+   *
+   * @returns The stored version, with `id` and `meta` set
+   * @throws ResourceStoreError with code `conflict` if a resource with the same id exists,
+   *   or `invalid-resource` if the value is not a BIND resource
+   */
+  create<T extends BindResource>(resource: T): T {
+    assertResource(resource);
+    const id = resource.id ?? this.generateId();
+    const partition = this.partition(resource.resourceType);
+    if (partition.current.has(id)) {
+      throw new ResourceStoreError(`${resource.resourceType}/${id} already exists`, "conflict");
+    }
+    return this.write({ ...resource, id }, partition);
+  }
+
+  /**
+   * Update a resource, or create it with the given id if it does not exist.
+   *
+   * @returns The stored version, with `meta.versionId` incremented
+   * @throws ResourceStoreError with code `precondition-failed` if `ifMatch` is not the
+   *   current version, or `invalid-resource` if the value is not a BIND resource or has no id
+   */
+  update<T extends BindResource>(resource: T, options?: WriteOptions): T {
+    assertResource(resource);
+    if (!resource.id) {
+      throw new ResourceStoreError(
+        `Cannot update a ${resource.resourceType} without an id`,
+        "invalid-resource",
+      );
+    }
+    const partition = this.partition(resource.resourceType);
+    this.checkVersion(resource.resourceType, resource.id, partition, options);
+    return this.write(resource, partition);
+  }
+
+  /**
+   * Delete a resource. Its earlier versions remain available through `history` and `vread`.
+   *
+   * @throws ResourceStoreError with code `not-found` if the resource does not exist,
+   *   or `precondition-failed` if `ifMatch` is not the current version
+   */
+  delete(resourceType: ResourceType, id: string, options?: WriteOptions): void {
+    const partition = this.partition(resourceType);
+    if (!partition.current.has(id)) throw notFound(resourceType, id);
+    this.checkVersion(resourceType, id, partition, options);
+    partition.current.delete(id);
+    partition.indexes.clear();
+  }
+
+  /**
+   * Read the current version of a resource.
+   *
+   * @throws ResourceStoreError with code `not-found` if the resource does not exist
+   */
+  read<T extends ResourceType>(resourceType: T, id: string): ResourceOf<T> {
+    const resource = this.partitions.get(resourceType)?.current.get(id);
+    if (!resource) throw notFound(resourceType, id);
+    return structuredClone(resource) as ResourceOf<T>;
+  }
+
+  /**
+   * Read a specific version of a resource, including versions of deleted resources.
+   *
+   * @throws ResourceStoreError with code `not-found` if the version does not exist
+   */
+  vread<T extends ResourceType>(resourceType: T, id: string, versionId: string): ResourceOf<T> {
+    const resource = this.partitions
+      .get(resourceType)
+      ?.history.get(id)
+      ?.find((r) => r.meta?.versionId === versionId);
+    if (!resource) {
+      throw new ResourceStoreError(
+        `${resourceType}/${id} has no version '${versionId}'`,
+        "not-found",
+      );
+    }
+    return structuredClone(resource) as ResourceOf<T>;
+  }
+
+  /**
+   * Every version of a resource, newest first.
+   *
+   * @throws ResourceStoreError with code `not-found` if the resource was never stored
+   */
+  history<T extends ResourceType>(resourceType: T, id: string): ResourceOf<T>[] {
+    const versions = this.partitions.get(resourceType)?.history.get(id);
+    if (!versions) throw notFound(resourceType, id);
+    return versions.map((r) => structuredClone(r) as ResourceOf<T>).reverse();
+  }
+
+  /**
+   * Get the current version of a resource, or undefined if it does not exist.
+   * Implements `ResourceSource`, so a store can back a `ReferenceResolver`.
+   */
+  get(resourceType: string, id: string): BindResource | undefined {
+    const resource = this.partitions.get(resourceType)?.current.get(id);
+    return resource && structuredClone(resource);
+  }
+
+  /**
+   * Search for resources.
+   *
+   * @param query - A search query (e.g., `"Policy?status=active"`), or a resource type
+   *   with separate search parameters
+   * @returns Matching resources in insertion order, or in `_sort` order
+   * @throws ResourceStoreError with code `invalid-search` for unknown parameters or malformed values
+   */
+  search(query: string): BindResource[];
+  search<T extends ResourceType>(resourceType: T, params?: SearchParams): ResourceOf<T>[];
+  search(query: string, params?: SearchParams): BindResource[] {
+    return this.run(query, params).resources;
+  }
+
+  /**
+   * Search for resources, with the number of matches before `_count` is applied.
+   *
+   * @param query - A search query (e.g., `"Policy?status=active&_count=10"`), or a resource
+   *   type with separate search parameters
+   * @returns Matching resources, as `search` returns them, and the total number of matches
+   * @throws ResourceStoreError with code `invalid-search` for unknown parameters or malformed values
+   */
+  searchWithTotal(query: string): SearchResults<BindResource>;
+  searchWithTotal<T extends ResourceType>(
+    resourceType: T,
+    params?: SearchParams,
+  ): SearchResults<ResourceOf<T>>;
+  searchWithTotal(query: string, params?: SearchParams): SearchResults<BindResource> {
+    return this.run(query, params);
+  }
+
+  /** Number of live resources, optionally of one type. */
+  count(resourceType?: ResourceType): number {
+    if (resourceType) return this.partitions.get(resourceType)?.current.size ?? 0;
+    let total = 0;
+    for (const partition of this.partitions.values()) total += partition.current.size;
+    return total;
+  }
+
+  private run(query: string, params?: SearchParams): SearchResults<BindResource> {
+    const parsed = parseSearchQuery(query);
+    const compiled = compileSearch(parsed.resourceType, params ?? parsed.params);
+    const matches = this.evaluate(compiled);
+    const page = compiled.count === undefined ? matches : matches.slice(0, compiled.count);
+    return { resources: page.map((r) => structuredClone(r)), total: matches.length };
+  }
+
+  /** Every resource matching a search, in result order. */
+  private evaluate(search: CompiledSearch): BindResource[] {
+    const partition = this.partitions.get(search.resourceType);
+    if (!partition) return [];
+
+    // Narrow the candidates with indexes, then check the remaining criteria one by one
+    let candidates: Iterable<BindResource> = partition.current.values();
+    const scanned: SearchCriterion[] = [];
+    let ids: Set<string> | undefined;
+
+    for (const criterion of search.criteria) {
+      if (!isIndexable(criterion)) {
+        scanned.push(criterion);
+        continue;
+      }
+      const index = this.index(partition, criterion);
+      const matched = new Set<string>();
+      for (const value of criterion.values) {
+        for (const id of index.get(searchKey(value, criterion.type)) ?? []) matched.add(id);
+      }
+      ids = ids ? new Set([...ids].filter((id) => matched.has(id))) : matched;
+    }
+
+    if (ids) {
+      const narrowed = ids;
+      candidates = [...partition.current.values()].filter((r) => narrowed.has(r.id as string));
+    }
+
+    let results = [...candidates].filter((r) => scanned.every((c) => matchesCriterion(r, c)));
+    if (search.sort.length > 0) {
+      results = results.sort((a, b) => compareResources(a, b, search.sort));
+    }
+    return results;
+  }
+
+  private index(partition: Partition, criterion: SearchCriterion): Map<string, Set<string>> {
+    let index = partition.indexes.get(criterion.name);
+    if (!index) {
+      index = new Map();
+      for (const [id, resource] of partition.current) {
+        for (const key of indexKeys(resource, criterion)) {
+          const ids = index.get(key) ?? new Set();
+          ids.add(id);
+          index.set(key, ids);
+        }
+      }
+      partition.indexes.set(criterion.name, index);
+    }
+    return index;
+  }
+
+  private write<T extends BindResource>(resource: T, partition: Partition): T {
+    const id = resource.id as string;
+    const versions = partition.history.get(id) ?? [];
+    const previous = versions[versions.length - 1]?.meta?.versionId;
+
+    const stored = structuredClone({
+      ...resource,
+      meta: {
+        ...resource.meta,
+        versionId: String((previous ? Number(previous) : 0) + 1),
+        lastUpdated: this.now().toISOString(),
+      },
+    });
+
+    versions.push(stored);
+    partition.history.set(id, versions);
+    partition.current.set(id, stored);
+    partition.indexes.clear();
+    return structuredClone(stored);
+  }
+
+  private checkVersion(
+    resourceType: string,
+    id: string,
+    partition: Partition,
+    options: WriteOptions | undefined,
+  ): void {
+    if (options?.ifMatch === undefined) return;
+    const expected = versionOf(options.ifMatch);
+    const current = partition.current.get(id)?.meta?.versionId;
+    if (current !== expected) {
+      throw new ResourceStoreError(
+        current
+          ? `${resourceType}/${id} is at version '${current}', not '${expected}'`
+          : `${resourceType}/${id} does not exist`,
+        "precondition-failed",
+      );
+    }
+  }
+
+  private partition(resourceType: string): Partition {
+    let partition = this.partitions.get(resourceType);
+    if (!partition) {
+      partition = { current: new Map(), history: new Map(), indexes: new Map() };
+      this.partitions.set(resourceType, partition);
+    }
+    return partition;
+  }
+}
+
+/** The version id of a bare version or an ETag (`W/"3"`, `"3"`). */
+function versionOf(etag: string): string {
+  return etag.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+}
+
+function assertResource(value: unknown): asserts value is BindResource {
+  if (!isBindResource(value)) {
+    const type = (value as { resourceType?: unknown } | null)?.resourceType;
+    throw new ResourceStoreError(
+      type === undefined ? "Value is not a BIND resource" : `Unknown resource type '${type}'`,
+      "invalid-resource",
+    );
+  }
+}
+
+function notFound(resourceType: string, id: string): ResourceStoreError {
+  return new ResourceStoreError(`${resourceType}/${id} not found`, "not-found");
+}
@@ -0,0 +1,82 @@
+// BIND Store — TypeScript Types
+// Options, search parameters and errors for the in-memory resource store.
+
+/**
+ * Options for `ResourceStore`.
+ */
+export interface ResourceStoreOptions {
+  /** Clock used for `Meta.lastUpdated` (defaults to the system clock) */
+  now?: () => Date;
+
+  /** Id generator for resources created without an id (defaults to `crypto.randomUUID`) */
+  generateId?: () => string;
+}
+
+/**
+ * Options for writes and deletes.
+ */
+export interface WriteOptions {
+  /**
+   * Only write if the current version matches, for optimistic concurrency.
+   * Accepts a bare version id (`"3"`) or an ETag (`W/"3"`).
+   */
+  ifMatch?: string;
+}
+
+/**
+ * Search parameters, keyed by parameter name (e.g., `status`, `address-state`, `dateOfLoss`).
+ *
+ * - Comma-separated values match any of the values (`status=active,pending`)
+ * - A repeated parameter must match every value (`{ dateOfLoss: ["ge2025-01-01", "lt2026-01-01"] }`)
+ * - `_count` limits the number of results and `_sort` orders them (`_sort=-dateOfLoss,claimNumber`)
+ *
+ * @example
+ * { "status": "active", "carrier": "Organization/carrier-200" }
+ */
+export type SearchParams =
+  | Record<string, string | string[] | undefined>
+  | URLSearchParams
+  | Iterable<[string, string]>;
+
+/**
+ * Results of `ResourceStore.searchWithTotal`.
+ */
+export interface SearchResults<T> {
+  /** Matching resources, up to `_count` */
+  resources: T[];
+
+  /** Number of matching resources, before `_count` is applied */
+  total: number;
+}
+
+/**
+ * How a search parameter matches, inferred from the element it names.
+ *
+ * - `string` — case- and accent-insensitive prefix match (`:exact`, `:contains` modifiers);
+ *   `Address` and `HumanName` match on any of their parts
+ * - `token` — `code`, `system|code`, `|code` or `system|` against codes, `Coding`,
+ *   `CodeableConcept`, `Identifier` and booleans (`:not` modifier)
+ * - `reference` — `Type/id`, a bare `id` or an absolute URL
+ * - `date` — `@format date`/`date-time` elements and `Period`, with `eq`, `ne`, `gt`, `lt`,
+ *   `ge` and `le` prefixes; partial dates match their whole range
+ * - `number` — numbers, `Money` and `Quantity`, with the same prefixes
+ *
+ * Every type supports the `:missing=true|false` modifier.
+ */
+export type SearchParamType = "string" | "token" | "reference" | "date" | "number";
+
+/**
+ * Error categories reported by the resource store.
+ *
+ * - `not-found` — No resource (or version) with the requested type and id
+ * - `conflict` — A resource with the same type and id already exists
+ * - `precondition-failed` — `ifMatch` does not match the current version
+ * - `invalid-resource` — The value is not a BIND resource
+ * - `invalid-search` — Unknown search parameter, modifier or malformed value
+ */
+export type ResourceStoreErrorCode =
+  | "not-found"
+  | "conflict"
+  | "precondition-failed"
+  | "invalid-resource"
+  | "invalid-search";
@@ -0,0 +1,80 @@
+// BIND Terminology Server — Response Cache
+// Pluggable cache for terminology responses, with an in-memory LRU implementation.
+
+/**
+ * A cached terminology server response.
+ */
+export interface TerminologyCacheEntry {
+  /** Parsed response body */
+  value: unknown;
+
+  /** ETag returned by the server, used to revalidate the entry once it expires */
+  etag?: string;
+
+  /** When the entry expires, in milliseconds since the epoch */
+  expires: number;
+}
+
+/**
+ * Storage adapter for cached terminology responses.
+ * Implement it to share a cache between processes (e.g., Redis or IndexedDB).
+ * Expired entries are still read, so they can be revalidated with `If-None-Match`.
+ *
+ * Keys identify the request, including the code system, code and language
+ * (e.g., `/roof-type/$lookup?code=metal&lang=fr-CA`).
+ */
+export interface TerminologyCache {
+  get(key: string): TerminologyCacheEntry | undefined | Promise<TerminologyCacheEntry | undefined>;
+  set(key: string, entry: TerminologyCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * In-memory, least-recently-used terminology cache.
+ *
+ * @example
+ * ```ts
+ * const client = new TerminologyClient({ cache: new MemoryCache(5_000), ttl: 24 * 60 * 60 * 1000 });
+ * ```
+ */
+export class MemoryCache implements TerminologyCache {
+  private readonly entries = new Map<string, TerminologyCacheEntry>();
+
+  /**
+   * @param maxEntries - Number of responses to keep before evicting the least recently used (default 1000)
+   */
+  constructor(private readonly maxEntries = 1000) {}
+
+  get(key: string): TerminologyCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: TerminologyCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Number of cached responses */
+  get size(): number {
+    return this.entries.size;
+  }
+}
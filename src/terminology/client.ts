@@ -1,15 +1,136 @@
 // BIND Terminology Server — Typed HTTP Client
 // A lightweight, zero-dependency client for https://bind.codes
 
-import type { CodeSystem, CodeSystemSummary, LookupResult, TerminologyError } from "./types";
+import type { Coding } from "../types/base";
+import type { TerminologyCache, TerminologyCacheEntry } from "./cache";
+import { MemoryCache } from "./cache";
+import { hasConceptMap, translateCoding } from "./conceptmap";
+import { codeSystemId, toLookupResult } from "./system";
+import type {
+  CodeSystem,
+  CodeSystemSummary,
+  ConceptMap,
+  LookupResult,
+  TerminologyError,
+  TranslateResult,
+  ValueSet,
+  ValueSetExpansion,
+} from "./types";
+import { expandValueSet } from "./valueset";
 
 const DEFAULT_BASE_URL = "https://bind.codes";
+const DEFAULT_TTL = 60 * 60 * 1000;
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_RETRY: Required<RetryOptions> = { retries: 2, minDelay: 250, maxDelay: 10_000 };
+const RETRY_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/** A successful (or 304) response with its parsed body. */
+interface ParsedResponse {
+  status: number;
+  etag?: string;
+  body?: unknown;
+}
+
+/** A request shared by concurrent callers, aborted once every caller waiting on it has aborted. */
+interface PendingRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/** A failed attempt, and whether it may be retried. */
+interface Failure {
+  error: TerminologyClientError;
+  retryable: boolean;
+  retryAfter?: number;
+}
 
 export interface TerminologyClientOptions {
   /** Base URL of the terminology server. Defaults to "https://bind.codes". */
   baseUrl?: string;
   /** Custom fetch implementation (defaults to global fetch). */
   fetch?: typeof globalThis.fetch;
+  /** Response cache (defaults to an in-memory LRU cache). Pass `false` to disable caching. */
+  cache?: TerminologyCache | false;
+  /** How long cached responses are used before revalidating them, in milliseconds (default 1 hour). */
+  ttl?: number;
+  /** Timeout for each attempt of a request, in milliseconds (default 30 seconds). Pass `0` to disable. */
+  timeout?: number;
+  /** Retries for network errors, timeouts, 408, 429 and 5xx responses. Pass `false` to disable. */
+  retry?: RetryOptions | false;
+  /** Concept maps used by `translate` instead of the server's `$translate` endpoint */
+  conceptMaps?: ConceptMap[];
+}
+
+/**
+ * Retry policy for `TerminologyClient`.
+ * Delays grow exponentially from `minDelay` with full jitter; a `Retry-After`
+ * header is honored instead, unless it asks for more than `maxDelay`.
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt (default 2) */
+  retries?: number;
+  /** Base delay before the first retry, in milliseconds (default 250) */
+  minDelay?: number;
+  /** Longest delay between attempts, in milliseconds (default 10 seconds) */
+  maxDelay?: number;
+}
+
+/**
+ * Options accepted by every `TerminologyClient` call.
+ */
+export interface TerminologyRequestOptions {
+  /** BCP-47 language code for localized display values (e.g., "fr-CA") */
+  lang?: string;
+  /** Cancels the call; the signal's reason is thrown */
+  signal?: AbortSignal;
+  /** Timeout for each attempt of this call, in milliseconds (overrides the client's `timeout`) */
+  timeout?: number;
+}
+
+/**
+ * Options for `lookupMany`.
+ */
+export interface LookupManyOptions extends TerminologyRequestOptions {
+  /** Number of code systems fetched at the same time (default 4) */
+  concurrency?: number;
+}
+
+/**
+ * A code to look up with `lookupMany`.
+ */
+export interface LookupRequest {
+  /** Code system canonical URL or identifier (e.g., "https://bind.codes/roof-type" or "roof-type") */
+  system: string;
+  /** Concept code (e.g., "metal") */
+  code: string;
+}
+
+/**
+ * The terminology server API, implemented by `TerminologyClient` (over HTTP)
+ * and `LocalTerminologyClient` (from an offline snapshot).
+ * Depend on this interface to swap backends without code changes.
+ */
+export interface TerminologyApi {
+  list(options?: TerminologyRequestOptions): Promise<CodeSystemSummary[]>;
+  get(id: string, options?: TerminologyRequestOptions): Promise<CodeSystem>;
+  lookup(id: string, code: string, options?: TerminologyRequestOptions): Promise<LookupResult>;
+  lookupMany<T extends LookupRequest>(
+    items: Iterable<T>,
+    options?: LookupManyOptions,
+  ): Promise<Map<T, PromiseSettledResult<LookupResult>>>;
+  search(query: string, options?: TerminologyRequestOptions): Promise<LookupResult[]>;
+  expand(
+    valueSet: ValueSet,
+    options?: TerminologyRequestOptions,
+  ): Promise<ValueSet & { expansion: ValueSetExpansion }>;
+  translate(
+    coding: Coding,
+    targetSystem: string,
+    options?: TerminologyRequestOptions,
+  ): Promise<TranslateResult>;
+  health(options?: TerminologyRequestOptions): Promise<{ status: string }>;
 }
 
 export class TerminologyClientError extends Error {
@@ -23,6 +144,56 @@ export class TerminologyClientError extends Error {
   }
 }
 
+/** The code system or code does not exist (HTTP 404). */
+export class TerminologyNotFoundError extends TerminologyClientError {
+  constructor(message: string, body?: TerminologyError) {
+    super(message, 404, body);
+    this.name = "TerminologyNotFoundError";
+  }
+}
+
+/** The server is rate limiting the client (HTTP 429) and retries were exhausted. */
+export class TerminologyRateLimitError extends TerminologyClientError {
+  constructor(
+    message: string,
+    body?: TerminologyError,
+    /** Delay requested by the server's `Retry-After` header, in milliseconds */
+    public readonly retryAfter?: number,
+  ) {
+    super(message, 429, body);
+    this.name = "TerminologyRateLimitError";
+  }
+}
+
+/** An attempt took longer than the timeout and retries were exhausted. `status` is 0. */
+export class TerminologyTimeoutError extends TerminologyClientError {
+  constructor(message: string) {
+    super(message, 0);
+    this.name = "TerminologyTimeoutError";
+  }
+}
+
+/** The server could not be reached and retries were exhausted. `status` is 0. */
+export class TerminologyNetworkError extends TerminologyClientError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, 0);
+    this.name = "TerminologyNetworkError";
+    if (options?.cause !== undefined) this.cause = options.cause;
+  }
+}
+
+/**
+ * The server's response cannot be used: its body is not valid JSON, or it is a
+ * 304 with no cached response to reuse. `status` is the response's status.
+ */
+export class TerminologyResponseError extends TerminologyClientError {
+  constructor(message: string, status: number, options?: { cause?: unknown }) {
+    super(message, status);
+    this.name = "TerminologyResponseError";
+    if (options?.cause !== undefined) this.cause = options.cause;
+  }
+}
+
 /**
  * Typed HTTP client for the BIND Terminology Server API.
  *
@@ -46,23 +217,67 @@ export class TerminologyClientError extends Error {
  *
  * // Get localized values
  * const frenchRoofTypes = await client.get("roof-type", { lang: "fr-CA" });
+ *
+ * // Look up many codes, fetching each code system once
+ * const results = await client.lookupMany([
+ *   { system: "roof-type", code: "metal" },
+ *   { system: "https://bind.codes/construction-type", code: "frame" },
+ * ]);
+ *
+ * // Expand a value set over the server's code systems
+ * const acceptable = await client.expand(acceptableRoofTypes);
+ *
+ * // Translate a coding to another code system
+ * const sic = await client.translate(insured.naicsCode, "https://www.osha.gov/sic");
+ *
+ * // Per-call timeout and cancellation
+ * const controller = new AbortController();
+ * const wood = await client.lookup("roof-type", "wood", { timeout: 2_000, signal: controller.signal });
  * ```
+ *
+ * Responses are cached for `ttl` milliseconds and then revalidated with
+ * `If-None-Match`. Once a code system has been fetched with `get`, lookups in
+ * it are answered from the cache without a request. Concurrent identical
+ * requests with the same `timeout` share one HTTP request. Cached results are
+ * shared between callers and should not be modified.
+ *
+ * A cancelled call rejects at once with its signal's reason. The HTTP request,
+ * including any retry backoff, is aborted once every call sharing it is cancelled.
+ *
+ * Failed attempts are retried with exponential backoff; once retries are
+ * exhausted the error is a `TerminologyNotFoundError`, `TerminologyRateLimitError`,
+ * `TerminologyTimeoutError`, `TerminologyNetworkError` or, for other statuses,
+ * a `TerminologyClientError`.
  */
-export class TerminologyClient {
+export class TerminologyClient implements TerminologyApi {
   private readonly baseUrl: string;
   private readonly fetch: typeof globalThis.fetch;
+  private readonly cache: TerminologyCache | undefined;
+  private readonly ttl: number;
+  private readonly timeout: number;
+  private readonly retry: Required<RetryOptions>;
+  private readonly conceptMaps: ConceptMap[];
+  private readonly pending = new Map<string, PendingRequest>();
 
   constructor(options?: TerminologyClientOptions) {
     this.baseUrl = (options?.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
     this.fetch = options?.fetch ?? globalThis.fetch.bind(globalThis);
+    this.cache = options?.cache === false ? undefined : (options?.cache ?? new MemoryCache());
+    this.ttl = options?.ttl ?? DEFAULT_TTL;
+    this.timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+    this.retry =
+      options?.retry === false
+        ? { ...DEFAULT_RETRY, retries: 0 }
+        : { ...DEFAULT_RETRY, ...options?.retry };
+    this.conceptMaps = options?.conceptMaps ?? [];
   }
 
   /**
    * List all available code systems.
    * Returns summaries without the full concept arrays.
    */
-  async list(): Promise<CodeSystemSummary[]> {
-    return this.request<CodeSystemSummary[]>("/list");
+  async list(options?: TerminologyRequestOptions): Promise<CodeSystemSummary[]> {
+    return this.request<CodeSystemSummary[]>("/list", options);
   }
 
   /**
@@ -72,11 +287,8 @@ export class TerminologyClient {
    * @param options - Optional parameters
    * @param options.lang - BCP-47 language code for localized display values (e.g., "fr-CA")
    */
-  async get(id: string, options?: { lang?: string }): Promise<CodeSystem> {
-    const params = new URLSearchParams();
-    if (options?.lang) params.set("lang", options.lang);
-    const qs = params.toString();
-    return this.request<CodeSystem>(`/${encodeURIComponent(id)}${qs ? `?${qs}` : ""}`);
+  async get(id: string, options?: TerminologyRequestOptions): Promise<CodeSystem> {
+    return this.request<CodeSystem>(codeSystemPath(id, options?.lang), options);
   }
 
   /**
@@ -86,11 +298,92 @@ export class TerminologyClient {
    * @param code - Concept code to look up (e.g., "metal")
    * @param options - Optional parameters
    * @param options.lang - BCP-47 language code for localized display values
+   * @throws TerminologyNotFoundError if the code system or code does not exist
    */
-  async lookup(id: string, code: string, options?: { lang?: string }): Promise<LookupResult> {
+  async lookup(
+    id: string,
+    code: string,
+    options?: TerminologyRequestOptions,
+  ): Promise<LookupResult> {
+    const system = await this.cached<CodeSystem>(codeSystemPath(id, options?.lang));
+    if (system) {
+      const concept = system.concept.find((c) => c.code === code);
+      if (!concept) throw codeNotFound(id, code);
+      return toLookupResult(system, concept);
+    }
+
     const params = new URLSearchParams({ code });
     if (options?.lang) params.set("lang", options.lang);
-    return this.request<LookupResult>(`/${encodeURIComponent(id)}/$lookup?${params.toString()}`);
+    return this.request<LookupResult>(
+      `/${encodeURIComponent(id)}/$lookup?${params.toString()}`,
+      options,
+    );
+  }
+
+  /**
+   * Look up many codes at once. Codes are grouped by code system and each
+   * code system is fetched once (or served from the cache), with at most
+   * `concurrency` code systems fetched at the same time.
+   *
+   * A failure only affects its own items: the result for each input is either
+   * the lookup result or the error (e.g., a `TerminologyNotFoundError` for an
+   * unknown code, or the error fetching its code system).
+   *
+   * @param items - Codes to look up; each item is a key of the returned map
+   * @param options - Optional parameters
+   * @param options.lang - BCP-47 language code for localized display values
+   * @param options.concurrency - Number of code systems fetched at the same time (default 4)
+   * @throws The signal's reason if the call is cancelled
+   *
+   * @example
+   * ```ts
+   * const results = await client.lookupMany(codes);
+   * for (const [item, result] of results) {
+   *   if (result.status === "rejected") console.warn(`${item.system}|${item.code}`, result.reason);
+   * }
+   * ```
+   */
+  async lookupMany<T extends LookupRequest>(
+    items: Iterable<T>,
+    options?: LookupManyOptions,
+  ): Promise<Map<T, PromiseSettledResult<LookupResult>>> {
+    const { concurrency = DEFAULT_CONCURRENCY, ...request } = options ?? {};
+    const inputs = [...items];
+    const groups = new Map<string, T[]>();
+    for (const item of inputs) {
+      const id = codeSystemId(item.system);
+      const group = groups.get(id) ?? [];
+      group.push(item);
+      groups.set(id, group);
+    }
+
+    const settled = new Map<T, PromiseSettledResult<LookupResult>>();
+    await mapLimit([...groups], concurrency, async ([id, group]) => {
+      let system: CodeSystem;
+      try {
+        system = await this.get(id, request);
+      } catch (reason) {
+        if (request.signal?.aborted) throw reason;
+        for (const item of group) settled.set(item, { status: "rejected", reason });
+        return;
+      }
+
+      const concepts = new Map(system.concept.map((concept) => [concept.code, concept]));
+      for (const item of group) {
+        const concept = concepts.get(item.code);
+        settled.set(
+          item,
+          concept
+            ? { status: "fulfilled", value: toLookupResult(system, concept) }
+            : { status: "rejected", reason: codeNotFound(id, item.code) },
+        );
+      }
+    });
+
+    // Return results in input order
+    return new Map(
+      inputs.map((item) => [item, settled.get(item) as PromiseSettledResult<LookupResult>]),
+    );
   }
 
   /**
@@ -101,40 +394,302 @@ export class TerminologyClient {
    * @param options - Optional parameters
    * @param options.lang - BCP-47 language code for localized display values
    */
-  async search(query: string, options?: { lang?: string }): Promise<LookupResult[]> {
+  async search(query: string, options?: TerminologyRequestOptions): Promise<LookupResult[]> {
     const params = new URLSearchParams({ q: query });
     if (options?.lang) params.set("lang", options.lang);
-    return this.request<LookupResult[]>(`/$search?${params.toString()}`);
+    return this.request<LookupResult[]>(`/$search?${params.toString()}`, options);
+  }
+
+  /**
+   * Expand a value set (`$expand`): list the concepts its `compose` selects
+   * from the server's code systems. See `expandValueSet`.
+   *
+   * @param valueSet - The value set to expand
+   * @param options - Optional parameters
+   * @param options.lang - BCP-47 language code for localized display values in the expansion
+   * @throws TerminologyNotFoundError if a code system, or a code listed in `compose`, does not exist
+   */
+  async expand(
+    valueSet: ValueSet,
+    options?: TerminologyRequestOptions,
+  ): Promise<ValueSet & { expansion: ValueSetExpansion }> {
+    return expandValueSet(valueSet, this, options);
+  }
+
+  /**
+   * Translate a coding to another code system (`$translate`).
+   * Uses the client's `conceptMaps` when one of them maps the coding's system to
+   * `targetSystem` (see `translateCoding`); otherwise asks the server.
+   *
+   * @param coding - The coding to translate (e.g., `Insured.naicsCode`)
+   * @param targetSystem - Target code system canonical URL or identifier
+   * @param options - Optional parameters
+   * @returns Matches ordered best first; `result` is false when there is none
+   */
+  async translate(
+    coding: Coding,
+    targetSystem: string,
+    options?: TerminologyRequestOptions,
+  ): Promise<TranslateResult> {
+    if (hasConceptMap(this.conceptMaps, targetSystem, coding.system)) {
+      return translateCoding(coding, targetSystem, this.conceptMaps);
+    }
+
+    const params = new URLSearchParams({ code: coding.code, target: targetSystem });
+    if (coding.system) params.set("system", coding.system);
+    return this.request<TranslateResult>(`/$translate?${params.toString()}`, options);
   }
 
   /**
    * Health check — verifies the terminology server is reachable.
    */
-  async health(): Promise<{ status: string }> {
-    return this.request<{ status: string }>("/health");
+  async health(options?: TerminologyRequestOptions): Promise<{ status: string }> {
+    return this.request<{ status: string }>("/health", { ...options, cache: false });
   }
 
-  private async request<T>(path: string): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
-    const response = await this.fetch(url, {
-      method: "GET",
-      headers: { Accept: "application/json" },
+  private async request<T>(
+    path: string,
+    options?: TerminologyRequestOptions & { cache?: boolean },
+  ): Promise<T> {
+    const cache = options?.cache === false ? undefined : this.cache;
+    const entry = await cache?.get(path);
+    if (entry && entry.expires > Date.now()) return entry.value as T;
+
+    // Share one request between concurrent callers of the same path and timeout. Each
+    // caller stops waiting on its own signal; the request is aborted once every caller has.
+    options?.signal?.throwIfAborted();
+    const key = options?.timeout === undefined ? path : `${path} timeout=${options.timeout}`;
+    let pending = this.pending.get(key);
+    if (!pending) {
+      const controller = new AbortController();
+      const promise = this.revalidate(path, cache, entry, options?.timeout, controller.signal);
+      const request: PendingRequest = { promise, controller, waiters: 0 };
+      promise
+        .finally(() => {
+          if (this.pending.get(key) === request) this.pending.delete(key);
+        })
+        // Each caller handles the outcome; callers that stopped waiting must not leave it unhandled
+        .catch(() => {});
+      this.pending.set(key, request);
+      pending = request;
+    }
+    return this.wait(key, pending, options?.signal) as Promise<T>;
+  }
+
+  /** Wait for a shared request until it settles or `signal` aborts. */
+  private wait(
+    key: string,
+    pending: PendingRequest,
+    signal: AbortSignal | undefined,
+  ): Promise<unknown> {
+    pending.waiters++;
+    if (!signal) return pending.promise;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason);
+        if (--pending.waiters > 0) return;
+        if (this.pending.get(key) === pending) this.pending.delete(key);
+        pending.controller.abort(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      pending.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener("abort", onAbort));
     });
+  }
 
-    if (!response.ok) {
-      let body: TerminologyError | undefined;
-      try {
-        body = (await response.json()) as TerminologyError;
-      } catch {
-        // ignore parse errors
+  private async revalidate(
+    path: string,
+    cache: TerminologyCache | undefined,
+    entry: TerminologyCacheEntry | undefined,
+    timeout: number | undefined,
+    signal: AbortSignal,
+  ): Promise<unknown> {
+    let response = await this.send(path, { timeout, signal }, entry?.etag);
+    if (response.status === 304 && entry) {
+      await cache?.set(path, { ...entry, expires: Date.now() + this.ttl });
+      return entry.value;
+    }
+    if (response.status === 304) {
+      // Nothing cached to reuse: ask again without `If-None-Match`
+      response = await this.send(path, { timeout, signal });
+      if (response.status === 304) {
+        throw new TerminologyResponseError(
+          `Request to ${this.baseUrl}${path} was answered 304 Not Modified without a cached response`,
+          304,
+        );
       }
-      throw new TerminologyClientError(
-        body?.error ?? `HTTP ${response.status}: ${response.statusText}`,
-        response.status,
-        body,
-      );
     }
 
-    return (await response.json()) as T;
+    const expires = Date.now() + this.ttl;
+    await cache?.set(path, { value: response.body, etag: response.etag, expires });
+    return response.body;
+  }
+
+  private async cached<T>(path: string): Promise<T | undefined> {
+    const entry = await this.cache?.get(path);
+    return entry && entry.expires > Date.now() ? (entry.value as T) : undefined;
   }
+
+  private async send(
+    path: string,
+    options: TerminologyRequestOptions | undefined,
+    etag?: string,
+  ): Promise<ParsedResponse> {
+    const url = `${this.baseUrl}${path}`;
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (etag) headers["If-None-Match"] = etag;
+    const timeout = options?.timeout ?? this.timeout;
+    const signal = options?.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      const outcome = await this.attempt(url, headers, timeout, signal);
+      if (!("error" in outcome)) return outcome;
+
+      const { error, retryable, retryAfter } = outcome;
+      const tooLate = retryAfter !== undefined && retryAfter > this.retry.maxDelay;
+      if (!retryable || tooLate || attempt >= this.retry.retries) throw error;
+
+      const backoff = Math.min(this.retry.maxDelay, this.retry.minDelay * 2 ** attempt);
+      await sleep(retryAfter ?? Math.random() * backoff, signal);
+    }
+  }
+
+  private async attempt(
+    url: string,
+    headers: Record<string, string>,
+    timeout: number,
+    signal: AbortSignal | undefined,
+  ): Promise<ParsedResponse | Failure> {
+    signal?.throwIfAborted();
+    const deadline = new AbortController();
+    const timer = timeout > 0 ? setTimeout(() => deadline.abort(), timeout) : undefined;
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.fetch(url, {
+        method: "GET",
+        headers,
+        signal: signal ? AbortSignal.any([signal, deadline.signal]) : deadline.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      return {
+        retryable: true,
+        error: deadline.signal.aborted
+          ? new TerminologyTimeoutError(`Request to ${url} timed out after ${timeout} ms`)
+          : new TerminologyNetworkError(`Request to ${url} failed: ${String(error)}`, {
+              cause: error,
+            }),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status === 304) return { status: 304 };
+    if (response.ok) {
+      return {
+        status: response.status,
+        etag: response.headers.get("ETag") ?? undefined,
+        body: parseBody(url, response.status, text),
+      };
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    return {
+      retryable: RETRY_STATUSES.has(response.status),
+      retryAfter,
+      error: toError(url, response, parseError(text), retryAfter),
+    };
+  }
+}
+
+function codeSystemPath(id: string, lang: string | undefined): string {
+  return `/${encodeURIComponent(id)}${lang ? `?${new URLSearchParams({ lang })}` : ""}`;
+}
+
+function codeNotFound(id: string, code: string): TerminologyNotFoundError {
+  const error = `Code '${code}' not found in code system '${id}'`;
+  return new TerminologyNotFoundError(error, { error });
+}
+
+function toError(
+  url: string,
+  response: Response,
+  body: TerminologyError | undefined,
+  retryAfter: number | undefined,
+): TerminologyClientError {
+  const status = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`;
+  const message = body?.error ?? `Request to ${url} failed with ${status}`;
+  switch (response.status) {
+    case 404:
+      return new TerminologyNotFoundError(message, body);
+    case 429:
+      return new TerminologyRateLimitError(message, body, retryAfter);
+    default:
+      return new TerminologyClientError(message, response.status, body);
+  }
+}
+
+function parseBody(url: string, status: number, text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new TerminologyResponseError(
+      `Response to ${url} (HTTP ${status}) is not valid JSON`,
+      status,
+      { cause: error },
+    );
+  }
+}
+
+/** The error body of a failed response, or undefined if it is not a `TerminologyError`. */
+function parseError(text: string): TerminologyError | undefined {
+  try {
+    const body: unknown = JSON.parse(text);
+    const error = (body as TerminologyError | null)?.error;
+    return typeof error === "string" ? (body as TerminologyError) : undefined;
+  } catch {
+    // ignore parse errors
+    return undefined;
+  }
+}
+
+/** `Retry-After` in milliseconds, from either delay-seconds or an HTTP date. */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Run `fn` over `items`, with at most `limit` calls in flight. */
+async function mapLimit<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++] as T);
+  };
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
 }
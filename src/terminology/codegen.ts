@@ -0,0 +1,106 @@
+// BIND Terminology Server — Code Generation
+// Renders code systems as TypeScript literal unions and typed Coding helpers.
+
+import type { CodeSystem } from "./types";
+
+/**
+ * Options for `renderCodeModule`.
+ */
+export interface CodeModuleOptions {
+  /** Module the generated file imports the `Coding` type from (default "@bind-standard/sdk") */
+  importFrom?: string;
+  /** Where the code systems came from, recorded in the file header (e.g., "https://bind.codes") */
+  source?: string;
+}
+
+/**
+ * Render a TypeScript module with, for each code system, a `const` array of its
+ * codes, a literal union type, a typed `Coding` interface, a `Coding` builder that
+ * fills in `system` and `display`, and a type guard. Names come from the code
+ * system's `name` (e.g., `RoofType` gives `RoofTypeCodes`, `RoofTypeCode`,
+ * `RoofTypeCoding`, `roofTypeCoding()` and `isRoofTypeCode()`).
+ *
+ * @example
+ * ```ts
+ * const snapshot = parseSnapshot(await readFile("terminology.ndjson", "utf8"));
+ * await writeFile("src/bind-codes.ts", renderCodeModule(snapshot.codeSystems));
+ *
+ * // In application code:
+ * const roof: RoofTypeCode = "metla"; // compile error
+ * location.roofType = roofTypeCoding("metal"); // { system: "https://bind.codes/roof-type", code: "metal", display: "Metal" }
+ * ```
+ */
+export function renderCodeModule(codeSystems: CodeSystem[], options?: CodeModuleOptions): string {
+  const importFrom = options?.importFrom ?? "@bind-standard/sdk";
+  const source = options?.source ? ` from ${options.source}` : "";
+  const sorted = [...codeSystems].sort((a, b) => a.id.localeCompare(b.id));
+
+  const lines = [
+    "// BIND Terminology — Code Systems",
+    `// Generated${source} by scripts/generate-codes.ts. Do not edit by hand.`,
+    "",
+    `import type { Coding } from ${JSON.stringify(importFrom)};`,
+  ];
+  for (const system of sorted) lines.push("", ...renderCodeSystem(system));
+  return `${lines.join("\n")}\n`;
+}
+
+function renderCodeSystem(system: CodeSystem): string[] {
+  const name = typeName(system);
+  const helper = `${name[0]?.toLowerCase()}${name.slice(1)}`;
+  const codes = system.concept.map((concept) => concept.code);
+  const description = system.description ? ` ${comment(system.description)}` : "";
+
+  return [
+    `// --- ${comment(system.title)} (${system.url}) ---`,
+    "",
+    `/** Canonical URL of the ${comment(system.title)} code system.${description} */`,
+    `export const ${name}System = ${JSON.stringify(system.url)};`,
+    "",
+    `/** Codes in the ${comment(system.title)} code system. */`,
+    `export const ${name}Codes = [`,
+    ...codes.map((code) => `  ${JSON.stringify(code)},`),
+    "] as const;",
+    "",
+    `/** A code from the ${comment(system.title)} code system. */`,
+    `export type ${name}Code = (typeof ${name}Codes)[number];`,
+    "",
+    `/** A \`Coding\` from the ${comment(system.title)} code system. */`,
+    `export interface ${name}Coding extends Coding {`,
+    `  system?: typeof ${name}System;`,
+    `  code: ${name}Code;`,
+    "}",
+    "",
+    `const ${helper}Displays: Record<${name}Code, string> = {`,
+    ...system.concept.map(
+      (concept) => `  ${JSON.stringify(concept.code)}: ${JSON.stringify(concept.display)},`,
+    ),
+    "};",
+    "",
+    `/** Build a \`Coding\` for a ${comment(system.title)} code, with its system and display. */`,
+    `export function ${helper}Coding(code: ${name}Code): ${name}Coding {`,
+    `  return { system: ${name}System, code, display: ${helper}Displays[code] };`,
+    "}",
+    "",
+    `/** Whether a string is a ${comment(system.title)} code. */`,
+    `export function is${name}Code(code: string): code is ${name}Code {`,
+    `  return (${name}Codes as readonly string[]).includes(code);`,
+    "}",
+  ];
+}
+
+/** PascalCase identifier for a code system: its `name`, or one derived from its `id`. */
+function typeName(system: CodeSystem): string {
+  if (/^[A-Z][A-Za-z0-9]*$/.test(system.name)) return system.name;
+  const name = system.id
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => `${part[0]?.toUpperCase()}${part.slice(1)}`)
+    .join("");
+  return /^[A-Za-z]/.test(name) ? name : `Code${name}`;
+}
+
+/** Text that is safe inside a `/** *\/` or `//` comment. */
+function comment(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\*\//g, "*\\/").trim();
+}
@@ -0,0 +1,111 @@
+// BIND Terminology Server — Concept Maps
+// Translates codings between code systems using concept maps.
+
+import type { Coding } from "../types/base";
+import { codeSystemId } from "./system";
+import type { ConceptMap, ConceptMapEquivalence, TranslateMatch, TranslateResult } from "./types";
+
+/** Order of matches in a result, best first; `unmatched` and `disjoint` are never matches. */
+const RANK: Record<ConceptMapEquivalence, number> = {
+  equal: 0,
+  equivalent: 1,
+  narrower: 2,
+  wider: 3,
+  inexact: 4,
+  unmatched: 5,
+  disjoint: 5,
+};
+
+/**
+ * Translate a coding to another code system using concept maps, without network access.
+ *
+ * Every group mapping the coding's system to `targetSystem` is used; a coding
+ * without a `system` is looked up in every group with that target. Systems are
+ * compared by identifier, so canonical URLs and identifiers can be mixed.
+ *
+ * @param coding - The coding to translate (e.g., `Insured.naicsCode`)
+ * @param targetSystem - Target code system canonical URL or identifier
+ * @param conceptMaps - Concept maps to translate with
+ * @returns Matches ordered best first; `result` is false when there is none
+ *
+ * @example
+ * ```ts
+ * const { matches } = translateCoding(insured.naicsCode, "https://www.osha.gov/sic", [naicsToSic]);
+ * insured.sicCode = matches[0]?.coding; // { system: "https://www.osha.gov/sic", code: "3599", ... }
+ * ```
+ */
+export function translateCoding(
+  coding: Coding,
+  targetSystem: string,
+  conceptMaps: Iterable<ConceptMap>,
+): TranslateResult {
+  const source = coding.system === undefined ? undefined : codeSystemId(coding.system);
+  const target = codeSystemId(targetSystem);
+  const matches: TranslateMatch[] = [];
+  let excluded = false;
+
+  for (const map of conceptMaps) {
+    for (const group of map.group) {
+      if (codeSystemId(group.target) !== target) continue;
+      if (source !== undefined && codeSystemId(group.source) !== source) continue;
+
+      for (const element of group.element) {
+        if (element.code !== coding.code) continue;
+        for (const mapped of element.target) {
+          if (mapped.code === undefined || RANK[mapped.equivalence] >= RANK.unmatched) {
+            excluded = true;
+            continue;
+          }
+          matches.push({
+            equivalence: mapped.equivalence,
+            coding: {
+              system: group.target,
+              code: mapped.code,
+              ...(mapped.display !== undefined && { display: mapped.display }),
+            },
+            source: map.url,
+            ...(mapped.comment !== undefined && { comment: mapped.comment }),
+          });
+        }
+      }
+    }
+  }
+
+  if (matches.length > 0) {
+    matches.sort((a, b) => RANK[a.equivalence] - RANK[b.equivalence]);
+    return { result: true, matches };
+  }
+
+  const code = coding.system === undefined ? coding.code : `${coding.system}|${coding.code}`;
+  return {
+    result: false,
+    matches,
+    message: excluded
+      ? `Code '${code}' has no equivalent in '${targetSystem}'`
+      : `No mapping from code '${code}' to '${targetSystem}'`,
+  };
+}
+
+/**
+ * Whether any of the concept maps translates codes to a target code system
+ * (from `sourceSystem`, if given).
+ */
+export function hasConceptMap(
+  conceptMaps: Iterable<ConceptMap>,
+  targetSystem: string,
+  sourceSystem?: string,
+): boolean {
+  const target = codeSystemId(targetSystem);
+  const source = sourceSystem === undefined ? undefined : codeSystemId(sourceSystem);
+  for (const map of conceptMaps) {
+    for (const group of map.group) {
+      if (
+        codeSystemId(group.target) === target &&
+        (source === undefined || codeSystemId(group.source) === source)
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
@@ -1,10 +1,52 @@
-export type { TerminologyClientOptions } from "./client";
-export { TerminologyClient, TerminologyClientError } from "./client";
+export type { TerminologyCache, TerminologyCacheEntry } from "./cache";
+export { MemoryCache } from "./cache";
+export type {
+  LookupManyOptions,
+  LookupRequest,
+  RetryOptions,
+  TerminologyApi,
+  TerminologyClientOptions,
+  TerminologyRequestOptions,
+} from "./client";
+export {
+  TerminologyClient,
+  TerminologyClientError,
+  TerminologyNetworkError,
+  TerminologyNotFoundError,
+  TerminologyRateLimitError,
+  TerminologyResponseError,
+  TerminologyTimeoutError,
+} from "./client";
+export type { CodeModuleOptions } from "./codegen";
+export { renderCodeModule } from "./codegen";
+export { translateCoding } from "./conceptmap";
+export { designationFor, localizeConcept } from "./language";
+export { LocalTerminologyClient } from "./local";
+export type { TerminologySearchHit, TerminologySearchOptions } from "./search";
+export { TerminologySearchIndex } from "./search";
+export { createSnapshot, parseSnapshot, serializeSnapshot } from "./snapshot";
+export { codeSystemId } from "./system";
 export type {
   CodeSystem,
   CodeSystemConcept,
   CodeSystemSummary,
+  ConceptMap,
+  ConceptMapElement,
+  ConceptMapEquivalence,
+  ConceptMapGroup,
+  ConceptMapTarget,
   Designation,
   LookupResult,
   TerminologyError,
+  TerminologySnapshot,
+  TranslateMatch,
+  TranslateResult,
+  ValueSet,
+  ValueSetCompose,
+  ValueSetConcept,
+  ValueSetExpansion,
+  ValueSetFilter,
+  ValueSetInclude,
 } from "./types";
+export type { ValueSetValidationResult } from "./valueset";
+export { expandValueSet, validateCode } from "./valueset";
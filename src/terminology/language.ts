@@ -0,0 +1,35 @@
+// BIND Terminology Server — Language Matching
+// Picks localized display values from concept designations.
+
+import type { CodeSystemConcept, Designation } from "./types";
+
+/**
+ * Find the designation for a BCP-47 language.
+ * An exact match (case-insensitive) wins; otherwise a designation with the same
+ * primary language is used (e.g., "fr" for "fr-CA", or "fr-CA" for "fr").
+ *
+ * @example
+ * ```ts
+ * designationFor([{ language: "fr-CA", value: "Bardeaux" }], "fr"); // { language: "fr-CA", value: "Bardeaux" }
+ * ```
+ */
+export function designationFor(
+  designations: Designation[] | undefined,
+  lang: string,
+): Designation | undefined {
+  const wanted = lang.toLowerCase();
+  const primary = wanted.split("-")[0];
+  return (
+    designations?.find((d) => d.language.toLowerCase() === wanted) ??
+    designations?.find((d) => d.language.toLowerCase().split("-")[0] === primary)
+  );
+}
+
+/**
+ * A concept with its display replaced by the designation for a language,
+ * or the concept unchanged if there is no such designation.
+ */
+export function localizeConcept(concept: CodeSystemConcept, lang?: string): CodeSystemConcept {
+  const designation = lang ? designationFor(concept.designation, lang) : undefined;
+  return designation ? { ...concept, display: designation.value } : concept;
+}
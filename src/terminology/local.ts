@@ -0,0 +1,159 @@
+// BIND Terminology Server — Local Client
+// Serves the terminology API from an offline snapshot, without network access.
+
+import type { Coding } from "../types/base";
+import type {
+  LookupManyOptions,
+  LookupRequest,
+  TerminologyApi,
+  TerminologyRequestOptions,
+} from "./client";
+import { TerminologyNotFoundError } from "./client";
+import { translateCoding } from "./conceptmap";
+import { localizeConcept } from "./language";
+import { codeSystemId, toLookupResult } from "./system";
+import type {
+  CodeSystem,
+  CodeSystemSummary,
+  ConceptMap,
+  LookupResult,
+  TerminologySnapshot,
+  TranslateResult,
+  ValueSet,
+  ValueSetExpansion,
+} from "./types";
+import { expandValueSet } from "./valueset";
+
+/**
+ * Terminology client backed by an offline snapshot instead of the terminology server.
+ * Implements the same API as `TerminologyClient`, including `lang` handling and
+ * `TerminologyNotFoundError`s for unknown code systems and codes.
+ *
+ * @example
+ * ```ts
+ * import { readFile } from "node:fs/promises";
+ * import { LocalTerminologyClient, parseSnapshot } from "@bind-standard/sdk/terminology";
+ *
+ * const client = new LocalTerminologyClient(parseSnapshot(await readFile("terminology.ndjson", "utf8")));
+ *
+ * const metal = await client.lookup("roof-type", "metal");
+ * const french = await client.get("roof-type", { lang: "fr-CA" });
+ * const acceptable = await client.expand(acceptableRoofTypes);
+ *
+ * // Translate with concept maps loaded from local map files
+ * const naicsToSic = JSON.parse(await readFile("naics-to-sic.json", "utf8"));
+ * const mapped = new LocalTerminologyClient(snapshot, { conceptMaps: [naicsToSic] });
+ * const sic = await mapped.translate(insured.naicsCode, "https://www.osha.gov/sic");
+ * ```
+ */
+export class LocalTerminologyClient implements TerminologyApi {
+  private readonly codeSystems = new Map<string, CodeSystem>();
+  private readonly conceptMaps: ConceptMap[];
+
+  /**
+   * @param source - A snapshot, or the code systems to serve
+   * @param options - Optional parameters
+   * @param options.conceptMaps - Concept maps used by `translate`
+   */
+  constructor(
+    source: TerminologySnapshot | CodeSystem[],
+    options?: { conceptMaps?: ConceptMap[] },
+  ) {
+    for (const system of Array.isArray(source) ? source : source.codeSystems) {
+      this.codeSystems.set(system.id, system);
+    }
+    this.conceptMaps = options?.conceptMaps ?? [];
+  }
+
+  async list(): Promise<CodeSystemSummary[]> {
+    return [...this.codeSystems.values()].map((system) => ({
+      id: system.id,
+      url: system.url,
+      name: system.name,
+      title: system.title,
+      status: system.status,
+      count: system.concept.length,
+    }));
+  }
+
+  async get(id: string, options?: TerminologyRequestOptions): Promise<CodeSystem> {
+    const system = this.codeSystem(id);
+    return {
+      ...system,
+      concept: system.concept.map((concept) => localizeConcept(concept, options?.lang)),
+    };
+  }
+
+  async lookup(
+    id: string,
+    code: string,
+    options?: TerminologyRequestOptions,
+  ): Promise<LookupResult> {
+    const system = this.codeSystem(id);
+    const concept = system.concept.find((c) => c.code === code);
+    if (!concept) throw notFound(`Code '${code}' not found in code system '${id}'`);
+    return toLookupResult(system, localizeConcept(concept, options?.lang));
+  }
+
+  async lookupMany<T extends LookupRequest>(
+    items: Iterable<T>,
+    options?: LookupManyOptions,
+  ): Promise<Map<T, PromiseSettledResult<LookupResult>>> {
+    const results = new Map<T, PromiseSettledResult<LookupResult>>();
+    for (const item of items) {
+      try {
+        const value = await this.lookup(codeSystemId(item.system), item.code, options);
+        results.set(item, { status: "fulfilled", value });
+      } catch (reason) {
+        results.set(item, { status: "rejected", reason });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Case-insensitive search of codes, displays and designations across all code systems.
+   */
+  async search(query: string, options?: TerminologyRequestOptions): Promise<LookupResult[]> {
+    const needle = query.trim().toLowerCase();
+    const results: LookupResult[] = [];
+    for (const system of this.codeSystems.values()) {
+      for (const concept of system.concept) {
+        const texts = [
+          concept.code,
+          concept.display,
+          ...(concept.designation ?? []).map((d) => d.value),
+        ];
+        if (texts.some((text) => text.toLowerCase().includes(needle))) {
+          results.push(toLookupResult(system, localizeConcept(concept, options?.lang)));
+        }
+      }
+    }
+    return results;
+  }
+
+  async expand(
+    valueSet: ValueSet,
+    options?: TerminologyRequestOptions,
+  ): Promise<ValueSet & { expansion: ValueSetExpansion }> {
+    return expandValueSet(valueSet, this, options);
+  }
+
+  async translate(coding: Coding, targetSystem: string): Promise<TranslateResult> {
+    return translateCoding(coding, targetSystem, this.conceptMaps);
+  }
+
+  async health(): Promise<{ status: string }> {
+    return { status: "ok" };
+  }
+
+  private codeSystem(id: string): CodeSystem {
+    const system = this.codeSystems.get(id);
+    if (!system) throw notFound(`Code system '${id}' not found`);
+    return system;
+  }
+}
+
+function notFound(error: string): TerminologyNotFoundError {
+  return new TerminologyNotFoundError(error, { error });
+}
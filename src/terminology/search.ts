@@ -0,0 +1,323 @@
+// BIND Terminology Server — Local Search Index
+// In-process, typo-tolerant search over code system concepts for type-ahead pickers.
+
+import type { TerminologyApi } from "./client";
+import { designationFor, localizeConcept } from "./language";
+import { createSnapshot } from "./snapshot";
+import { codeSystemId, toLookupResult } from "./system";
+import type { CodeSystem, CodeSystemConcept, LookupResult } from "./types";
+
+const DEFAULT_LIMIT = 20;
+
+/** Weight of a match in each field of a concept. */
+const FIELD_WEIGHT = { code: 3, display: 3, designation: 2.5, definition: 1 };
+
+/** Quality of a term match, by kind (fuzzy matches are divided by their edit distance). */
+const MATCH_QUALITY = { exact: 1, prefix: 0.75, fuzzy: 0.6, fuzzyPrefix: 0.4 };
+
+/**
+ * Options for `TerminologySearchIndex.search`.
+ */
+export interface TerminologySearchOptions {
+  /** Code systems to search, by identifier or canonical URL (defaults to all) */
+  systems?: string[];
+  /**
+   * BCP-47 language code. Designations in this language rank above other
+   * designations, and hits are returned with localized displays.
+   */
+  lang?: string;
+  /** Maximum number of hits (default 20) */
+  limit?: number;
+  /**
+   * Largest edit distance allowed between a query term and a word (default:
+   * 1 for terms of 4 to 7 characters, 2 for longer terms). Pass `false` to
+   * disable typo tolerance.
+   */
+  fuzzy?: number | false;
+}
+
+/**
+ * A search hit: the concept's lookup result with its relevance score.
+ */
+export interface TerminologySearchHit extends LookupResult {
+  /** Relevance score; higher is better */
+  score: number;
+}
+
+/** A concept in the index. */
+interface Entry {
+  system: CodeSystem;
+  concept: CodeSystemConcept;
+  code: string;
+  display: string;
+}
+
+/** Where a word occurs. */
+interface Posting {
+  entry: number;
+  field: keyof typeof FIELD_WEIGHT;
+  language?: string;
+}
+
+/**
+ * In-process search index over code system concepts. Matches codes, displays,
+ * definitions and designations by whole word, by prefix (for type-ahead) and
+ * with typo tolerance; every query term must match. Searching is synchronous
+ * and takes milliseconds, so it can run on every keystroke.
+ *
+ * Hits are ranked by where each term matched (code and display above
+ * designations, designations above definitions), how closely it matched
+ * (exact, then prefix, then fuzzy), and the requested language.
+ *
+ * @example
+ * ```ts
+ * const index = await TerminologySearchIndex.fromClient(new TerminologyClient(), {
+ *   ids: ["roof-type", "construction-type"],
+ * });
+ *
+ * index.search("shing"); // prefix: "Shingle"
+ * index.search("shingel"); // typo: "Shingle"
+ * index.search("bardeau", { lang: "fr-CA", systems: ["roof-type"] }); // [{ code: "shingle", display: "Bardeaux", score: ... }]
+ * ```
+ */
+export class TerminologySearchIndex {
+  private readonly codeSystems = new Map<string, CodeSystem>();
+  private entries: Entry[] = [];
+  private postings = new Map<string, Posting[]>();
+  private words: string[] = [];
+  private stale = true;
+
+  /**
+   * @param codeSystems - Code systems to index
+   */
+  constructor(codeSystems: Iterable<CodeSystem> = []) {
+    for (const system of codeSystems) this.add(system);
+  }
+
+  /**
+   * Build an index from the code systems of a terminology client.
+   *
+   * @param client - Client to read from (e.g., a `TerminologyClient` or `LocalTerminologyClient`)
+   * @param options - Optional parameters
+   * @param options.ids - Code systems to index (defaults to every code system in `list()`)
+   */
+  static async fromClient(
+    client: Pick<TerminologyApi, "list" | "get">,
+    options?: { ids?: string[] },
+  ): Promise<TerminologySearchIndex> {
+    const { codeSystems } = await createSnapshot(client, { ids: options?.ids });
+    return new TerminologySearchIndex(codeSystems);
+  }
+
+  /**
+   * Add a code system to the index, replacing any code system with the same id.
+   */
+  add(system: CodeSystem): void {
+    this.codeSystems.set(system.id, system);
+    this.stale = true;
+  }
+
+  /**
+   * Remove a code system from the index.
+   *
+   * @param system - Code system identifier or canonical URL
+   * @returns Whether the code system was in the index
+   */
+  remove(system: string): boolean {
+    const removed = this.codeSystems.delete(codeSystemId(system));
+    if (removed) this.stale = true;
+    return removed;
+  }
+
+  /** Number of concepts in the index */
+  get size(): number {
+    this.build();
+    return this.entries.length;
+  }
+
+  /**
+   * Search the index.
+   *
+   * @param query - Words or word prefixes to find (e.g., "gen liab", "shingel")
+   * @param options - Optional parameters
+   * @returns Hits, best first
+   */
+  search(query: string, options?: TerminologySearchOptions): TerminologySearchHit[] {
+    this.build();
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    const systems = options?.systems && new Set(options.systems.map(codeSystemId));
+    const lang = options?.lang;
+    let scores: Map<number, number> | undefined;
+
+    for (const term of terms) {
+      const termScores = new Map<number, number>();
+      for (const [word, quality] of this.matchWords(term, options?.fuzzy)) {
+        for (const posting of this.postings.get(word) ?? []) {
+          if (scores && !scores.has(posting.entry)) continue;
+          const score = quality * weight(posting, this.entries[posting.entry] as Entry, lang);
+          if (score > (termScores.get(posting.entry) ?? 0)) termScores.set(posting.entry, score);
+        }
+      }
+      if (scores) {
+        for (const [entry, score] of termScores)
+          termScores.set(entry, score + (scores.get(entry) ?? 0));
+      }
+      scores = termScores;
+      if (scores.size === 0) return [];
+    }
+
+    const phrase = terms.join(" ");
+    const hits: { entry: Entry; score: number }[] = [];
+    for (const [index, score] of scores ?? []) {
+      const entry = this.entries[index] as Entry;
+      if (systems && !systems.has(entry.system.id)) continue;
+      const display = normalize(localizeConcept(entry.concept, lang).display);
+      let bonus = 0;
+      if (entry.code === phrase || display === phrase) bonus = 3;
+      else if (display.startsWith(phrase)) bonus = 1;
+      hits.push({ entry, score: score + bonus });
+    }
+
+    return hits
+      .sort((a, b) => b.score - a.score || a.entry.display.localeCompare(b.entry.display))
+      .slice(0, options?.limit ?? DEFAULT_LIMIT)
+      .map(({ entry, score }) => ({
+        ...toLookupResult(entry.system, localizeConcept(entry.concept, lang)),
+        score: Math.round(score * 1000) / 1000,
+      }));
+  }
+
+  /** Index words matching a query term, with the quality of each match. */
+  private matchWords(term: string, fuzzy: number | false | undefined): Map<string, number> {
+    const matches = new Map<string, number>();
+
+    // Prefix matches (including the exact word) are contiguous in the sorted word list
+    for (let i = lowerBound(this.words, term); i < this.words.length; i++) {
+      const word = this.words[i] as string;
+      if (!word.startsWith(term)) break;
+      matches.set(word, word === term ? MATCH_QUALITY.exact : MATCH_QUALITY.prefix);
+    }
+
+    const distance =
+      fuzzy === false ? 0 : (fuzzy ?? (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0));
+    if (distance === 0) return matches;
+
+    for (const word of this.words) {
+      if (matches.has(word) || word.length < term.length - distance) continue;
+      const full =
+        Math.abs(word.length - term.length) <= distance
+          ? editDistance(term, word, distance)
+          : Number.POSITIVE_INFINITY;
+      if (full <= distance) {
+        matches.set(word, MATCH_QUALITY.fuzzy / full);
+        continue;
+      }
+      const prefix = editDistance(term, word.slice(0, term.length), distance);
+      if (prefix <= distance) matches.set(word, MATCH_QUALITY.fuzzyPrefix / prefix);
+    }
+    return matches;
+  }
+
+  private build(): void {
+    if (!this.stale) return;
+    this.entries = [];
+    this.postings = new Map();
+
+    const add = (text: string | undefined, posting: Posting) => {
+      for (const word of new Set(tokenize(text ?? ""))) {
+        const list = this.postings.get(word) ?? [];
+        list.push(posting);
+        this.postings.set(word, list);
+      }
+    };
+
+    for (const system of this.codeSystems.values()) {
+      for (const concept of system.concept) {
+        const entry = this.entries.length;
+        this.entries.push({
+          system,
+          concept,
+          code: normalize(concept.code),
+          display: normalize(concept.display),
+        });
+        add(concept.code, { entry, field: "code" });
+        add(concept.display, { entry, field: "display" });
+        add(concept.definition, { entry, field: "definition" });
+        for (const designation of concept.designation ?? []) {
+          add(designation.value, { entry, field: "designation", language: designation.language });
+        }
+      }
+    }
+
+    this.words = [...this.postings.keys()].sort();
+    this.stale = false;
+  }
+}
+
+/** Weight of a posting, ranking designations in the requested language above others. */
+function weight(posting: Posting, entry: Entry, lang: string | undefined): number {
+  const base = FIELD_WEIGHT[posting.field];
+  if (posting.field !== "designation" || !posting.language) return base;
+  if (!lang) return base * 0.8;
+  const preferred = designationFor(entry.concept.designation, lang);
+  return preferred?.language === posting.language ? base * 1.4 : base * 0.6;
+}
+
+/** Lowercase, without diacritics, with words separated by single spaces. */
+function normalize(text: string): string {
+  return tokenize(text).join(" ");
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/** Index of the first word that is not less than `term`. */
+function lowerBound(words: string[], term: string): number {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if ((words[mid] as string) < term) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions ("shingel" is one edit from "shingle"), or `max + 1` as soon
+ * as it is known to exceed `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        (previous[j - 1] as number) + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (before[j - 2] as number) + 1);
+      }
+      current.push(value);
+      best = Math.min(best, value);
+    }
+    if (best > max) return max + 1;
+    before = previous;
+    previous = current;
+  }
+  return previous[b.length] as number;
+}
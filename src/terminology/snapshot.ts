@@ -0,0 +1,86 @@
+// BIND Terminology Server — Offline Snapshots
+// Exports code systems to versioned JSON/NDJSON snapshots and reads them back.
+
+import type { TerminologyApi } from "./client";
+import type { CodeSystem, TerminologySnapshot } from "./types";
+
+const FORMAT = "bind-terminology-snapshot";
+const VERSION = 1;
+
+/**
+ * Take a snapshot of code systems from a terminology server.
+ *
+ * @param client - Client to read from (e.g., a `TerminologyClient`)
+ * @param options - Optional parameters
+ * @param options.ids - Code systems to include (defaults to every code system in `list()`)
+ * @param options.source - Server URL recorded in the snapshot
+ *
+ * @example
+ * ```ts
+ * const snapshot = await createSnapshot(new TerminologyClient(), { source: "https://bind.codes" });
+ * await writeFile("terminology.ndjson", serializeSnapshot(snapshot, "ndjson"));
+ * ```
+ */
+export async function createSnapshot(
+  client: Pick<TerminologyApi, "list" | "get">,
+  options?: { ids?: string[]; source?: string },
+): Promise<TerminologySnapshot> {
+  const ids = options?.ids ?? (await client.list()).map((s) => s.id);
+  const codeSystems: CodeSystem[] = [];
+  for (const id of ids) {
+    codeSystems.push(await client.get(id));
+  }
+  return {
+    format: FORMAT,
+    version: VERSION,
+    created: new Date().toISOString(),
+    ...(options?.source !== undefined && { source: options.source }),
+    codeSystems,
+  };
+}
+
+/**
+ * Serialize a snapshot as a JSON document or as NDJSON (a header line, then one code system per line).
+ */
+export function serializeSnapshot(
+  snapshot: TerminologySnapshot,
+  format: "json" | "ndjson" = "json",
+): string {
+  if (format === "json") return `${JSON.stringify(snapshot, null, 2)}\n`;
+  const { codeSystems, ...header } = snapshot;
+  return `${[header, ...codeSystems].map((line) => JSON.stringify(line)).join("\n")}\n`;
+}
+
+/**
+ * Parse a snapshot serialized by `serializeSnapshot`, in either format.
+ *
+ * @throws Error if the text is not a snapshot or uses an unsupported snapshot version
+ */
+export function parseSnapshot(text: string): TerminologySnapshot {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  let snapshot: TerminologySnapshot;
+
+  try {
+    const first = JSON.parse(lines[0] ?? "");
+    snapshot =
+      lines.length > 1 || !Array.isArray(first?.codeSystems)
+        ? { ...first, codeSystems: lines.slice(1).map((line) => JSON.parse(line)) }
+        : first;
+  } catch {
+    // A pretty-printed JSON document spans several lines
+    try {
+      snapshot = JSON.parse(text);
+    } catch {
+      throw new Error("Terminology snapshot is neither JSON nor NDJSON");
+    }
+  }
+
+  if (snapshot?.format !== FORMAT) throw new Error("Not a BIND terminology snapshot");
+  if (snapshot.version !== VERSION) {
+    throw new Error(`Unsupported terminology snapshot version ${snapshot.version}`);
+  }
+  if (!Array.isArray(snapshot.codeSystems)) {
+    throw new Error("Terminology snapshot has no code systems");
+  }
+  return snapshot;
+}
@@ -0,0 +1,33 @@
+// BIND Terminology Server — Code Systems
+// Code system identifiers and lookup results built from code system concepts.
+
+import type { CodeSystem, CodeSystemConcept, LookupResult } from "./types";
+
+/**
+ * Get the code system identifier used by the terminology server API.
+ * Accepts either a canonical URL or an identifier.
+ *
+ * @example
+ * ```ts
+ * codeSystemId("https://bind.codes/roof-type"); // "roof-type"
+ * codeSystemId("roof-type"); // "roof-type"
+ * ```
+ */
+export function codeSystemId(system: string): string {
+  if (!/^[A-Za-z][A-Za-z0-9+.-]*:/.test(system)) return system;
+  const path = system.replace(/[?#].*$/, "").replace(/\/+$/, "");
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+/**
+ * Build the lookup result for a concept, as returned by the `$lookup` endpoint.
+ */
+export function toLookupResult(system: CodeSystem, concept: CodeSystemConcept): LookupResult {
+  return {
+    system: system.url,
+    code: concept.code,
+    display: concept.display,
+    definition: concept.definition ?? "",
+    ...(concept.designation && { designation: concept.designation }),
+  };
+}
@@ -1,6 +1,8 @@
 // BIND Terminology Server — TypeScript Types
 // Mirrors the code system types served by https://bind.codes
 
+import type { Coding } from "../types/base";
+
 /**
  * A localized display value for a concept.
  * Used for multi-language support (e.g., French-Canadian "fr-CA").
@@ -115,3 +117,261 @@ export interface TerminologyError {
   /** Error message */
   error: string;
 }
+
+/**
+ * An offline copy of terminology server code systems, produced by `createSnapshot`.
+ *
+ * Serialized either as a single JSON document, or as NDJSON with this header
+ * (without `codeSystems`) on the first line and one `CodeSystem` per following line.
+ *
+ * @example
+ * {
+ *   "format": "bind-terminology-snapshot",
+ *   "version": 1,
+ *   "created": "2025-10-01T12:00:00.000Z",
+ *   "source": "https://bind.codes",
+ *   "codeSystems": [{ "resourceType": "CodeSystem", "id": "roof-type", ... }]
+ * }
+ */
+export interface TerminologySnapshot {
+  /** Always "bind-terminology-snapshot" */
+  format: "bind-terminology-snapshot";
+  /** Snapshot format version */
+  version: 1;
+  /** When the snapshot was taken (ISO 8601) */
+  created: string;
+  /** Base URL of the server the snapshot was taken from */
+  source?: string;
+  /** Full code systems, including all concepts and designations */
+  codeSystems: CodeSystem[];
+}
+
+/**
+ * A BIND value set: a subset of one or more code systems, such as the roof
+ * types acceptable for a homeowners program. Concepts are selected by code or
+ * by filter in `compose`, and listed in `expansion` once expanded.
+ *
+ * @example
+ * {
+ *   "resourceType": "ValueSet",
+ *   "id": "ho-acceptable-roof-type",
+ *   "url": "https://example-carrier.com/ValueSet/ho-acceptable-roof-type",
+ *   "title": "Acceptable Homeowners Roof Types",
+ *   "status": "active",
+ *   "compose": {
+ *     "include": [{
+ *       "system": "https://bind.codes/roof-type",
+ *       "concept": [{ "code": "shingle" }, { "code": "metal" }, { "code": "tile" }]
+ *     }]
+ *   }
+ * }
+ */
+export interface ValueSet {
+  /** Always "ValueSet" */
+  resourceType: "ValueSet";
+  /** Value set identifier */
+  id: string;
+  /** Canonical URL */
+  url: string;
+  /** PascalCase name */
+  name?: string;
+  /** Human-readable title */
+  title?: string;
+  /** Publication status */
+  status: "draft" | "active" | "retired" | "unknown";
+  /** Value set description */
+  description?: string;
+  /** Definition of the concepts in the value set */
+  compose: ValueSetCompose;
+  /** Concepts in the value set, filled in by `expandValueSet` */
+  expansion?: ValueSetExpansion;
+}
+
+/**
+ * Definition of a value set. A concept is in the value set when any `include`
+ * selects it and no `exclude` does.
+ */
+export interface ValueSetCompose {
+  /** Concepts to include */
+  include: ValueSetInclude[];
+  /** Concepts to leave out, even if included */
+  exclude?: ValueSetInclude[];
+}
+
+/**
+ * Concepts selected from one code system. With neither `concept` nor `filter`,
+ * every concept in the code system is selected; with both, a concept must be
+ * listed and match every filter.
+ */
+export interface ValueSetInclude {
+  /** Code system canonical URL or identifier (e.g., "https://bind.codes/roof-type") */
+  system: string;
+  /** Codes to select */
+  concept?: ValueSetConcept[];
+  /** Filters a concept must all match to be selected */
+  filter?: ValueSetFilter[];
+}
+
+/**
+ * A code selected by a value set.
+ */
+export interface ValueSetConcept {
+  /** Code in the code system */
+  code: string;
+  /** Display for readers of the definition; expansions use the code system's display */
+  display?: string;
+}
+
+/**
+ * Selects concepts by comparing one of their properties with a value.
+ *
+ * @example
+ * { "property": "code", "op": "in", "value": "shingle,metal,tile" }
+ */
+export interface ValueSetFilter {
+  /** Concept property compared (`display` also matches designations) */
+  property: "code" | "display" | "definition";
+  /**
+   * - `=`: equals `value`
+   * - `in` / `not-in`: is / is not one of the comma-separated values
+   * - `regex`: matches the regular expression in `value` in full
+   */
+  op: "=" | "in" | "not-in" | "regex";
+  /** Value to compare with */
+  value: string;
+}
+
+/**
+ * The concepts of an expanded value set.
+ */
+export interface ValueSetExpansion {
+  /** When the value set was expanded (ISO 8601) */
+  timestamp: string;
+  /** Number of concepts in the value set */
+  total: number;
+  /** Concepts in the value set, in `compose.include` order */
+  contains: LookupResult[];
+}
+
+/**
+ * How a mapped target concept relates to its source concept, from the source's point of view.
+ *
+ * - `equal` / `equivalent`: same meaning (identically defined, or equivalent in practice)
+ * - `wider`: the target is broader than the source
+ * - `narrower`: the target is narrower than the source
+ * - `inexact`: overlapping but not identical meaning
+ * - `unmatched` / `disjoint`: explicitly no match in the target system
+ */
+export type ConceptMapEquivalence =
+  | "equal"
+  | "equivalent"
+  | "wider"
+  | "narrower"
+  | "inexact"
+  | "unmatched"
+  | "disjoint";
+
+/**
+ * A BIND concept map: maps codes from one code system to another
+ * (e.g., NAICS to SIC, or a carrier's proprietary loss causes to BIND loss types).
+ *
+ * @example
+ * {
+ *   "resourceType": "ConceptMap",
+ *   "id": "naics-to-sic",
+ *   "url": "https://example-carrier.com/ConceptMap/naics-to-sic",
+ *   "status": "active",
+ *   "group": [{
+ *     "source": "https://www.census.gov/naics",
+ *     "target": "https://www.osha.gov/sic",
+ *     "element": [{
+ *       "code": "332710",
+ *       "display": "Machine Shops",
+ *       "target": [{ "code": "3599", "display": "Industrial Machinery, NEC", "equivalence": "wider" }]
+ *     }]
+ *   }]
+ * }
+ */
+export interface ConceptMap {
+  /** Always "ConceptMap" */
+  resourceType: "ConceptMap";
+  /** Concept map identifier */
+  id: string;
+  /** Canonical URL */
+  url: string;
+  /** PascalCase name */
+  name?: string;
+  /** Human-readable title */
+  title?: string;
+  /** Publication status */
+  status: "draft" | "active" | "retired" | "unknown";
+  /** Concept map description */
+  description?: string;
+  /** Mappings, grouped by source and target code system */
+  group: ConceptMapGroup[];
+}
+
+/**
+ * Mappings from one source code system to one target code system.
+ */
+export interface ConceptMapGroup {
+  /** Source code system canonical URL or identifier */
+  source: string;
+  /** Target code system canonical URL or identifier */
+  target: string;
+  /** Mappings for each source code */
+  element: ConceptMapElement[];
+}
+
+/**
+ * The targets a source code maps to.
+ */
+export interface ConceptMapElement {
+  /** Source code */
+  code: string;
+  /** Source display, for readers of the map */
+  display?: string;
+  /** Target concepts */
+  target: ConceptMapTarget[];
+}
+
+/**
+ * A target concept and how it relates to the source code.
+ */
+export interface ConceptMapTarget {
+  /** Target code (omitted for `unmatched` and `disjoint`) */
+  code?: string;
+  /** Target display */
+  display?: string;
+  /** How the target relates to the source */
+  equivalence: ConceptMapEquivalence;
+  /** Notes on the mapping */
+  comment?: string;
+}
+
+/**
+ * Result of translating a coding to another code system.
+ * Returned by `translateCoding` and the `$translate` endpoint.
+ */
+export interface TranslateResult {
+  /** Whether at least one match was found */
+  result: boolean;
+  /** Matches, best first (`equal`, `equivalent`, `narrower`, `wider`, then `inexact`) */
+  matches: TranslateMatch[];
+  /** Why there is no match */
+  message?: string;
+}
+
+/**
+ * A coding in the target code system that a source coding maps to.
+ */
+export interface TranslateMatch {
+  /** How the target relates to the source */
+  equivalence: ConceptMapEquivalence;
+  /** The target coding */
+  coding: Coding;
+  /** Canonical URL of the concept map the match comes from */
+  source?: string;
+  /** Notes on the mapping */
+  comment?: string;
+}
@@ -0,0 +1,184 @@
+// BIND Terminology Server — Value Sets
+// Expands value sets over code systems and checks codings against them.
+
+import type { Coding } from "../types/base";
+import type { TerminologyApi, TerminologyRequestOptions } from "./client";
+import { TerminologyNotFoundError } from "./client";
+import { localizeConcept } from "./language";
+import { codeSystemId, toLookupResult } from "./system";
+import type {
+  CodeSystem,
+  CodeSystemConcept,
+  LookupResult,
+  ValueSet,
+  ValueSetExpansion,
+  ValueSetFilter,
+  ValueSetInclude,
+} from "./types";
+
+/**
+ * Result of `validateCode`.
+ */
+export interface ValueSetValidationResult {
+  /** Whether the coding's code is in the value set */
+  valid: boolean;
+  /** The matching concept from the expansion */
+  concept?: LookupResult;
+  /** Why the code is not valid, or a warning about a valid code (e.g., a display mismatch) */
+  message?: string;
+}
+
+/**
+ * Expand a value set: resolve `compose` against its code systems and list the
+ * selected concepts in `expansion`. Each code system is fetched once.
+ *
+ * @param valueSet - The value set to expand
+ * @param client - Client to read code systems from (e.g., a `TerminologyClient` or `LocalTerminologyClient`)
+ * @param options - Optional parameters
+ * @param options.lang - BCP-47 language code for localized display values in the expansion
+ * @returns A copy of the value set with `expansion` filled in
+ * @throws TerminologyNotFoundError if a code system, or a code listed in `compose`, does not exist
+ * @throws SyntaxError if a `regex` filter is not a valid regular expression
+ *
+ * @example
+ * ```ts
+ * const expanded = await expandValueSet(acceptableRoofTypes, new TerminologyClient());
+ * expanded.expansion.contains.map((c) => c.code); // ["shingle", "metal", "tile"]
+ * ```
+ */
+export async function expandValueSet(
+  valueSet: ValueSet,
+  client: Pick<TerminologyApi, "get">,
+  options?: TerminologyRequestOptions,
+): Promise<ValueSet & { expansion: ValueSetExpansion }> {
+  const { include, exclude = [] } = valueSet.compose;
+  const ids = new Set([...include, ...exclude].map((item) => codeSystemId(item.system)));
+  const codeSystems = new Map<string, CodeSystem>();
+  await Promise.all(
+    [...ids].map(async (id) => {
+      // Fetched without `lang` so filters see the code system's own displays
+      const system = await client.get(id, { signal: options?.signal, timeout: options?.timeout });
+      codeSystems.set(id, system);
+    }),
+  );
+  const codeSystemFor = (item: ValueSetInclude) =>
+    codeSystems.get(codeSystemId(item.system)) as CodeSystem;
+
+  const seen = new Set<string>();
+  for (const item of exclude) {
+    const system = codeSystemFor(item);
+    for (const concept of select(valueSet, system, item)) seen.add(`${system.url}|${concept.code}`);
+  }
+
+  const contains: LookupResult[] = [];
+  for (const item of include) {
+    const system = codeSystemFor(item);
+    for (const concept of select(valueSet, system, item)) {
+      const key = `${system.url}|${concept.code}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      contains.push(toLookupResult(system, localizeConcept(concept, options?.lang)));
+    }
+  }
+
+  return {
+    ...valueSet,
+    expansion: { timestamp: new Date().toISOString(), total: contains.length, contains },
+  };
+}
+
+/**
+ * Check whether a coding is in an expanded value set.
+ *
+ * A coding without a `system` matches a concept with the same code in any of
+ * the value set's code systems. A `display` that matches neither the concept's
+ * display nor any of its designations is reported in `message`, but does not
+ * make the code invalid.
+ *
+ * @param valueSet - A value set expanded with `expandValueSet` (or a client's `expand`)
+ * @param coding - The coding to check
+ * @throws Error if the value set has not been expanded
+ *
+ * @example
+ * ```ts
+ * const result = validateCode(acceptableRoofTypes, { system: "https://bind.codes/roof-type", code: "wood" });
+ * // { valid: false, message: "Code 'https://bind.codes/roof-type|wood' is not in value set '...'" }
+ * ```
+ */
+export function validateCode(valueSet: ValueSet, coding: Coding): ValueSetValidationResult {
+  if (!valueSet.expansion) {
+    throw new Error(`Value set '${valueSet.url}' has not been expanded; call expandValueSet first`);
+  }
+
+  const system = coding.system === undefined ? undefined : codeSystemId(coding.system);
+  const concept = valueSet.expansion.contains.find(
+    (c) => c.code === coding.code && (system === undefined || codeSystemId(c.system) === system),
+  );
+  if (!concept) {
+    const code = coding.system === undefined ? coding.code : `${coding.system}|${coding.code}`;
+    return { valid: false, message: `Code '${code}' is not in value set '${valueSet.url}'` };
+  }
+
+  if (coding.display !== undefined && !matchesDisplay(coding.display, concept)) {
+    return {
+      valid: true,
+      concept,
+      message: `Display '${coding.display}' does not match '${concept.display}' for code '${coding.code}'`,
+    };
+  }
+  return { valid: true, concept };
+}
+
+/** Concepts of a code system selected by an include or exclude, in listed order. */
+function select(
+  valueSet: ValueSet,
+  system: CodeSystem,
+  item: ValueSetInclude,
+): CodeSystemConcept[] {
+  let concepts = system.concept;
+  if (item.concept) {
+    const byCode = new Map(system.concept.map((concept) => [concept.code, concept]));
+    concepts = item.concept.map(({ code }) => {
+      const concept = byCode.get(code);
+      if (!concept) {
+        const error = `Code '${code}' in value set '${valueSet.url}' not found in code system '${system.id}'`;
+        throw new TerminologyNotFoundError(error, { error });
+      }
+      return concept;
+    });
+  }
+  const filters = item.filter ?? [];
+  return concepts.filter((concept) => filters.every((filter) => matchesFilter(concept, filter)));
+}
+
+function matchesFilter(concept: CodeSystemConcept, filter: ValueSetFilter): boolean {
+  const values =
+    filter.property === "code"
+      ? [concept.code]
+      : filter.property === "display"
+        ? [concept.display, ...(concept.designation ?? []).map((d) => d.value)]
+        : [concept.definition ?? ""];
+
+  switch (filter.op) {
+    case "=":
+      return values.includes(filter.value);
+    case "in":
+    case "not-in": {
+      const list = new Set(filter.value.split(",").map((value) => value.trim()));
+      return values.some((value) => list.has(value)) === (filter.op === "in");
+    }
+    case "regex": {
+      const pattern = new RegExp(`^(?:${filter.value})$`);
+      return values.some((value) => pattern.test(value));
+    }
+    default:
+      return false;
+  }
+}
+
+function matchesDisplay(display: string, concept: LookupResult): boolean {
+  const normalized = display.trim().toLowerCase();
+  return [concept.display, ...(concept.designation ?? []).map((d) => d.value)].some(
+    (value) => value.trim().toLowerCase() === normalized,
+  );
+}
@@ -0,0 +1,140 @@
+// BIND Validation — Constraint Checks
+// Enforces the @pattern, @format, @minimum and @maximum JSDoc tags at runtime.
+
+import { primitives } from "./definitions";
+import type { ElementConstraints, ElementFormat, ValidationIssueCode } from "./types";
+
+/**
+ * A failed constraint check.
+ */
+export interface ConstraintViolation {
+  /** Issue category: "invalid-format", "out-of-range" or "invalid-type" (non-integer) */
+  code: Extract<ValidationIssueCode, "invalid-format" | "out-of-range" | "invalid-type">;
+
+  /** Human-readable description of the violation */
+  message: string;
+}
+
+const DATE = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+const DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})[Tt](\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))$/;
+const TIME = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+const URI = /^[A-Za-z][A-Za-z0-9+.-]*:[^\s]+$/;
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Check a value against a set of constraints.
+ * Values of the wrong JSON type are ignored — type checking is the validator's job.
+ *
+ * @returns The first violation found, or undefined if the value satisfies every constraint.
+ *
+ * @example
+ * ```ts
+ * checkConstraints(1550, { minimum: 1600, maximum: 2100 });
+ * // { code: "out-of-range", message: "1550 is less than the minimum of 1600" }
+ * ```
+ */
+export function checkConstraints(
+  value: unknown,
+  constraints: ElementConstraints,
+): ConstraintViolation | undefined {
+  if (typeof value === "string") {
+    if (constraints.pattern !== undefined && !compile(constraints.pattern).test(value)) {
+      return {
+        code: "invalid-format",
+        message: `'${value}' does not match the pattern ${constraints.pattern}`,
+      };
+    }
+    if (constraints.format !== undefined && !isValidFormat(value, constraints.format)) {
+      return { code: "invalid-format", message: `'${value}' is not a valid ${constraints.format}` };
+    }
+  }
+
+  if (typeof value === "number") {
+    if (constraints.integer && !Number.isInteger(value)) {
+      return { code: "invalid-type", message: `Expected an integer but got ${value}` };
+    }
+    if (constraints.minimum !== undefined && value < constraints.minimum) {
+      return {
+        code: "out-of-range",
+        message: `${value} is less than the minimum of ${constraints.minimum}`,
+      };
+    }
+    if (constraints.maximum !== undefined && value > constraints.maximum) {
+      return {
+        code: "out-of-range",
+        message: `${value} is greater than the maximum of ${constraints.maximum}`,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a value against a BIND primitive type (e.g., "BindId", "BindDate", "BindPercentage").
+ *
+ * @throws Error if `primitive` is not a BIND primitive type
+ */
+export function checkPrimitive(primitive: string, value: unknown): ConstraintViolation | undefined {
+  const constraints = primitives[primitive];
+  if (!constraints) throw new Error(`Unknown primitive type '${primitive}'`);
+  return checkConstraints(value, constraints);
+}
+
+/**
+ * Whether a string satisfies one of the BIND string formats.
+ * Dates may be partial (`YYYY` or `YYYY-MM`) but must be real calendar dates.
+ */
+export function isValidFormat(value: string, format: ElementFormat): boolean {
+  switch (format) {
+    case "date": {
+      const match = DATE.exec(value);
+      return !!match && isCalendarDate(match[1], match[2], match[3]);
+    }
+    case "date-time": {
+      const match = DATE_TIME.exec(value);
+      return (
+        !!match &&
+        isCalendarDate(match[1], match[2], match[3]) &&
+        isClockTime(match[4], match[5], match[6]) &&
+        (match[7] === undefined || isClockTime(match[7], match[8]))
+      );
+    }
+    case "time": {
+      const match = TIME.exec(value);
+      return !!match && isClockTime(match[1], match[2], match[3]);
+    }
+    case "uri":
+      return URI.test(value);
+  }
+}
+
+function compile(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function isCalendarDate(year: string, month?: string, day?: string): boolean {
+  if (month === undefined) return true;
+  const m = Number(month);
+  if (m < 1 || m > 12) return false;
+  if (day === undefined) return true;
+  const y = Number(year);
+  const leap = (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+  const daysInMonth = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][m - 1];
+  const d = Number(day);
+  return d >= 1 && d <= daysInMonth;
+}
+
+function isClockTime(hours: string, minutes: string, seconds?: string): boolean {
+  // Seconds may be 60 to allow for leap seconds
+  return (
+    Number(hours) <= 23 && Number(minutes) <= 59 && (seconds === undefined || Number(seconds) <= 60)
+  );
+}
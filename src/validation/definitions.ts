@@ -0,0 +1,1338 @@
+// BIND Validation — Structure Definitions
+// Generated from src/types by scripts/generate-definitions.ts. Do not edit by hand.
+
+import type { ElementConstraints, TypeDefinition } from "./types";
+
+/** Runtime definitions of every BIND resource and data type, keyed by interface name. */
+export const definitions: Record<string, TypeDefinition> = {
+  AdditionalInterest: {
+    name: "AdditionalInterest",
+    elements: [
+      { name: "party", type: "complex", required: true, ref: "Reference" },
+      {
+        name: "role",
+        type: "code",
+        required: true,
+        values: [
+          "mortgagee",
+          "loss-payee",
+          "additional-insured",
+          "certificate-holder",
+          "lienholder",
+        ],
+      },
+      { name: "rank", type: "number" },
+      {
+        name: "subtypes",
+        type: "code",
+        array: 1,
+        values: ["blanket", "scheduled", "primary-non-contributory"],
+      },
+      { name: "loanNumber", type: "string" },
+      { name: "notificationPreference", type: "complex", ref: "CodeableConcept" },
+    ],
+  },
+  Address: {
+    name: "Address",
+    elements: [
+      {
+        name: "use",
+        type: "code",
+        values: ["work", "mailing", "billing", "loss-location", "home", "old"],
+      },
+      { name: "type", type: "code", values: ["postal", "physical", "both"] },
+      { name: "text", type: "string" },
+      { name: "line", type: "string", array: 1 },
+      { name: "city", type: "string" },
+      { name: "district", type: "string" },
+      { name: "state", type: "string" },
+      { name: "postalCode", type: "string" },
+      { name: "country", type: "string" },
+      { name: "period", type: "complex", ref: "Period" },
+      { name: "geoPoint", type: "complex", ref: "GeoPoint" },
+    ],
+  },
+  AssetValuation: {
+    name: "AssetValuation",
+    elements: [
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "amount", type: "complex", required: true, ref: "Money" },
+      { name: "effectiveDate", type: "string", constraints: { format: "date" } },
+      { name: "source", type: "string" },
+      { name: "notes", type: "string" },
+    ],
+  },
+  Attachment: {
+    name: "Attachment",
+    elements: [
+      { name: "contentType", type: "string" },
+      { name: "url", type: "string", constraints: { format: "uri" } },
+      { name: "title", type: "string" },
+      { name: "creation", type: "string", constraints: { format: "date-time" } },
+    ],
+  },
+  CarrierAppointment: {
+    name: "CarrierAppointment",
+    elements: [
+      { name: "carrier", type: "complex", required: true, ref: "Reference" },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: ["active", "inactive", "pending", "terminated"],
+      },
+      { name: "linesOfBusiness", type: "complex", array: 1, ref: "CodeableConcept" },
+      { name: "effectivePeriod", type: "complex", ref: "Period" },
+      { name: "commissionType", type: "complex", ref: "CodeableConcept" },
+    ],
+  },
+  Certificate: {
+    name: "Certificate",
+    resourceType: "Certificate",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Certificate"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "certificateNumber", type: "string" },
+      { name: "insured", type: "complex", required: true, ref: "Reference" },
+      { name: "holder", type: "complex", required: true, ref: "CertificateHolder" },
+      { name: "coverageSummaries", type: "complex", array: 1, ref: "CoverageSummary" },
+      { name: "issuedDate", type: "string", constraints: { format: "date" } },
+      { name: "cancellationNoticeDays", type: "number" },
+    ],
+  },
+  CertificateHolder: {
+    name: "CertificateHolder",
+    elements: [
+      { name: "name", type: "string", required: true },
+      { name: "address", type: "complex", ref: "Address" },
+      { name: "isAdditionalInsured", type: "boolean" },
+      { name: "waiverOfSubrogation", type: "boolean" },
+      { name: "primaryNonContributory", type: "boolean" },
+    ],
+  },
+  Claim: {
+    name: "Claim",
+    resourceType: "Claim",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Claim"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: ["open", "closed", "reopened", "denied", "subrogation"],
+      },
+      { name: "claimNumber", type: "string", required: true },
+      { name: "policy", type: "complex", required: true, ref: "Reference" },
+      { name: "coverage", type: "complex", ref: "Reference" },
+      { name: "insured", type: "complex", required: true, ref: "Reference" },
+      { name: "dateOfLoss", type: "string", required: true, constraints: { format: "date" } },
+      { name: "dateReported", type: "string", constraints: { format: "date-time" } },
+      {
+        name: "lossType",
+        type: "complex",
+        required: true,
+        binding: { system: "https://bind.codes/loss-cause", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "description", type: "string" },
+      { name: "lossLocation", type: "complex", ref: "Address" },
+      { name: "adjuster", type: "complex", ref: "Reference" },
+      { name: "claimants", type: "complex", array: 1, ref: "Claimant" },
+      { name: "financials", type: "complex", ref: "ClaimFinancials" },
+      {
+        name: "litigationStatus",
+        type: "code",
+        values: ["none", "threatened", "filed", "settled", "judgment"],
+      },
+      { name: "documents", type: "complex", array: 1, ref: "Attachment" },
+      {
+        name: "lossCause",
+        type: "complex",
+        binding: { system: "https://bind.codes/loss-cause", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      {
+        name: "lossKind",
+        type: "complex",
+        binding: { system: "https://bind.codes/loss-kind", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "lossTime", type: "string", constraints: { format: "time" } },
+      { name: "assignments", type: "complex", array: 1, ref: "ClaimsAssignment" },
+      { name: "reports", type: "complex", array: 1, ref: "ClaimReport" },
+      { name: "subrogation", type: "complex", ref: "SubrogationDetail" },
+    ],
+  },
+  ClaimFinancials: {
+    name: "ClaimFinancials",
+    elements: [
+      { name: "totalIncurred", type: "complex", ref: "Money" },
+      { name: "totalPaid", type: "complex", ref: "Money" },
+      { name: "totalReserves", type: "complex", ref: "Money" },
+      { name: "subrogationRecovery", type: "complex", ref: "Money" },
+      { name: "deductibleApplied", type: "complex", ref: "Money" },
+      { name: "payments", type: "complex", array: 1, ref: "ClaimPayment" },
+    ],
+  },
+  ClaimPayment: {
+    name: "ClaimPayment",
+    elements: [
+      { name: "paymentDate", type: "string", required: true, constraints: { format: "date" } },
+      { name: "amount", type: "complex", required: true, ref: "Money" },
+      {
+        name: "paymentType",
+        type: "code",
+        required: true,
+        values: ["indemnity", "expense", "medical", "legal", "salvage"],
+      },
+      { name: "payee", type: "string" },
+      { name: "description", type: "string" },
+    ],
+  },
+  ClaimReport: {
+    name: "ClaimReport",
+    elements: [
+      {
+        name: "reportType",
+        type: "code",
+        required: true,
+        values: ["police", "fire", "incident", "appraisal"],
+      },
+      { name: "reportNumber", type: "string" },
+      { name: "agency", type: "string" },
+      { name: "date", type: "string", constraints: { format: "date" } },
+      { name: "attachment", type: "complex", ref: "Attachment" },
+    ],
+  },
+  Claimant: {
+    name: "Claimant",
+    elements: [
+      { name: "name", type: "string", required: true },
+      {
+        name: "role",
+        type: "code",
+        required: true,
+        values: ["insured", "employee", "third-party", "injured-party", "property-owner"],
+      },
+      { name: "contact", type: "complex", ref: "Address" },
+      {
+        name: "attorney",
+        type: "complex",
+        elements: [
+          { name: "name", type: "string", required: true },
+          { name: "firm", type: "string" },
+        ],
+      },
+    ],
+  },
+  ClaimsAssignment: {
+    name: "ClaimsAssignment",
+    elements: [
+      { name: "person", type: "complex", required: true, ref: "Reference" },
+      {
+        name: "role",
+        type: "code",
+        required: true,
+        values: ["adjuster", "appraiser", "investigator", "defense-counsel", "expert"],
+      },
+      { name: "assignedDate", type: "string", constraints: { format: "date" } },
+      { name: "status", type: "code", values: ["active", "completed", "reassigned"] },
+    ],
+  },
+  Classification: {
+    name: "Classification",
+    elements: [
+      { name: "classCode", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "exposure", type: "complex", ref: "Quantity" },
+      { name: "rate", type: "number" },
+      { name: "premium", type: "complex", ref: "Money" },
+      { name: "location", type: "complex", ref: "Reference" },
+      { name: "description", type: "string" },
+    ],
+  },
+  CodeableConcept: {
+    name: "CodeableConcept",
+    elements: [
+      { name: "coding", type: "complex", array: 1, ref: "Coding" },
+      { name: "text", type: "string" },
+    ],
+  },
+  Coding: {
+    name: "Coding",
+    elements: [
+      { name: "system", type: "string", constraints: { format: "uri" } },
+      { name: "code", type: "string", required: true },
+      { name: "display", type: "string" },
+    ],
+  },
+  Commission: {
+    name: "Commission",
+    elements: [
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "percentage", type: "number" },
+      { name: "amount", type: "complex", ref: "Money" },
+      { name: "payableTo", type: "complex", ref: "Reference" },
+      { name: "producer", type: "complex", ref: "Reference" },
+      {
+        name: "schedule",
+        type: "code",
+        values: ["on-binding", "on-effective", "on-collection", "installment"],
+      },
+      { name: "tiers", type: "complex", array: 1, ref: "CommissionTier" },
+      { name: "splits", type: "complex", array: 1, ref: "CommissionSplit" },
+    ],
+  },
+  CommissionSplit: {
+    name: "CommissionSplit",
+    elements: [
+      { name: "party", type: "complex", required: true, ref: "Reference" },
+      { name: "percentage", type: "number", required: true },
+      { name: "amount", type: "complex", ref: "Money" },
+      { name: "role", type: "complex", ref: "CodeableConcept" },
+    ],
+  },
+  CommissionTier: {
+    name: "CommissionTier",
+    elements: [
+      { name: "lossRatioFrom", type: "number" },
+      { name: "lossRatioTo", type: "number" },
+      { name: "percentage", type: "number", required: true },
+    ],
+  },
+  ContactPoint: {
+    name: "ContactPoint",
+    elements: [
+      { name: "system", type: "code", values: ["phone", "fax", "email", "url"] },
+      { name: "value", type: "string", required: true },
+      { name: "use", type: "code", values: ["work", "home", "mobile"] },
+    ],
+  },
+  Coverage: {
+    name: "Coverage",
+    resourceType: "Coverage",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Coverage"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "status", type: "code", required: true, values: ["active", "inactive", "pending"] },
+      { name: "policy", type: "complex", required: true, ref: "Reference" },
+      {
+        name: "lineOfBusiness",
+        type: "complex",
+        required: true,
+        binding: { system: "https://bind.codes/line-of-business", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "limits", type: "complex", array: 1, ref: "CoverageLimit" },
+      { name: "deductible", type: "complex", ref: "Deductible" },
+      { name: "premium", type: "complex", ref: "Premium" },
+      { name: "coverageExtensions", type: "complex", array: 1, ref: "CoverageExtension" },
+      { name: "classifications", type: "complex", array: 1, ref: "Classification" },
+      { name: "coinsurancePercentage", type: "number" },
+      { name: "risks", type: "complex", array: 1, ref: "Reference" },
+      { name: "specialty", type: "complex", ref: "InsuranceSpecialty" },
+      { name: "coveragePart", type: "complex", ref: "CodeableConcept" },
+      { name: "scheduledItems", type: "complex", array: 1, ref: "ScheduledItem" },
+      { name: "exclusions", type: "complex", array: 1, ref: "Exclusion" },
+      { name: "conditions", type: "complex", array: 1, ref: "PolicyCondition" },
+      { name: "forms", type: "complex", array: 1, ref: "InsuranceForm" },
+    ],
+  },
+  CoverageExtension: {
+    name: "CoverageExtension",
+    elements: [
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "included", type: "boolean", required: true },
+      { name: "sublimit", type: "complex", ref: "Money" },
+      { name: "additionalPremium", type: "complex", ref: "Money" },
+      { name: "description", type: "string" },
+    ],
+  },
+  CoverageLimit: {
+    name: "CoverageLimit",
+    elements: [
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "amount", type: "complex", ref: "Money" },
+      { name: "splitAmounts", type: "complex", array: 1, ref: "SplitLimitComponent" },
+      { name: "shared", type: "boolean" },
+      { name: "basisType", type: "string" },
+      { name: "isSublimit", type: "boolean" },
+      { name: "parentLimit", type: "complex", ref: "CodeableConcept" },
+      { name: "attachmentPoint", type: "complex", ref: "Money" },
+      { name: "eroded", type: "complex", ref: "Money" },
+      { name: "remaining", type: "complex", ref: "Money" },
+      { name: "reinstatements", type: "number" },
+    ],
+  },
+  CoverageSummary: {
+    name: "CoverageSummary",
+    elements: [
+      { name: "lineOfBusiness", type: "complex", ref: "CodeableConcept" },
+      { name: "policy", type: "complex", ref: "Reference" },
+      { name: "carrier", type: "complex", ref: "Reference" },
+      { name: "effectivePeriod", type: "complex", ref: "Period" },
+      { name: "limits", type: "complex", array: 1, ref: "CoverageLimit" },
+    ],
+  },
+  DateTimePeriod: {
+    name: "DateTimePeriod",
+    elements: [
+      { name: "start", type: "string", constraints: { format: "date-time" } },
+      { name: "end", type: "string", constraints: { format: "date-time" } },
+    ],
+  },
+  Deductible: {
+    name: "Deductible",
+    elements: [
+      { name: "amount", type: "complex", ref: "Money" },
+      {
+        name: "type",
+        type: "code",
+        required: true,
+        values: [
+          "per-occurrence",
+          "per-claim",
+          "aggregate",
+          "annual-aggregate",
+          "per-employee",
+          "per-project",
+          "percentage",
+          "hurricane",
+          "wind-hail",
+          "earthquake",
+          "all-perils",
+        ],
+      },
+      {
+        name: "application",
+        type: "code",
+        values: ["loss-only", "alae-inclusive", "alae-exclusive"],
+      },
+      { name: "isSIR", type: "boolean" },
+      { name: "aggregateAmount", type: "complex", ref: "Money" },
+      { name: "corridorPercentage", type: "number" },
+      { name: "franchiseAmount", type: "complex", ref: "Money" },
+      { name: "disappearingThreshold", type: "complex", ref: "Money" },
+      { name: "percentage", type: "number", constraints: { minimum: 0, maximum: 100 } },
+      { name: "percentageBasis", type: "complex", ref: "CodeableConcept" },
+      { name: "description", type: "string" },
+    ],
+  },
+  DrivingViolation: {
+    name: "DrivingViolation",
+    elements: [
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "date", type: "string", constraints: { format: "date" } },
+      { name: "points", type: "number" },
+      { name: "atFault", type: "boolean" },
+      { name: "description", type: "string" },
+    ],
+  },
+  Endorsement: {
+    name: "Endorsement",
+    elements: [
+      { name: "endorsementNumber", type: "string" },
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "effectiveDate", type: "string", required: true, constraints: { format: "date" } },
+      { name: "description", type: "string" },
+      { name: "premiumChange", type: "complex", ref: "Money" },
+      { name: "changes", type: "complex", array: 1, ref: "EndorsementChange" },
+      { name: "document", type: "complex", ref: "Attachment" },
+    ],
+  },
+  EndorsementChange: {
+    name: "EndorsementChange",
+    elements: [
+      { name: "coverage", type: "complex", required: true, ref: "Reference" },
+      { name: "action", type: "code", required: true, values: ["add", "modify", "remove"] },
+      { name: "limits", type: "complex", array: 1, ref: "CoverageLimit" },
+      { name: "deductible", type: "complex", ref: "Deductible" },
+      { name: "coverageExtensions", type: "complex", array: 1, ref: "CoverageExtension" },
+      { name: "classifications", type: "complex", array: 1, ref: "Classification" },
+      { name: "premiumChange", type: "complex", ref: "Money" },
+      { name: "description", type: "string" },
+    ],
+  },
+  Exclusion: {
+    name: "Exclusion",
+    elements: [
+      { name: "code", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "description", type: "string" },
+      { name: "effectivePeriod", type: "complex", ref: "Period" },
+      { name: "buybackAvailable", type: "boolean" },
+      { name: "endorsementRef", type: "complex", ref: "Reference" },
+    ],
+  },
+  FinancialRating: {
+    name: "FinancialRating",
+    elements: [
+      { name: "agency", type: "complex", required: true, ref: "Coding" },
+      { name: "rating", type: "string", required: true },
+      {
+        name: "outlook",
+        type: "code",
+        values: ["stable", "positive", "negative", "developing", "under-review"],
+      },
+      { name: "financialSizeCategory", type: "string" },
+      { name: "effectiveDate", type: "string", constraints: { format: "date" } },
+    ],
+  },
+  GeoPoint: {
+    name: "GeoPoint",
+    elements: [
+      {
+        name: "latitude",
+        type: "number",
+        required: true,
+        constraints: { minimum: -90, maximum: 90 },
+      },
+      {
+        name: "longitude",
+        type: "number",
+        required: true,
+        constraints: { minimum: -180, maximum: 180 },
+      },
+      { name: "altitude", type: "number" },
+    ],
+  },
+  GeoRegion: {
+    name: "GeoRegion",
+    elements: [
+      { name: "type", type: "code", required: true, values: ["Polygon"] },
+      { name: "coordinates", type: "number", required: true, array: 3 },
+    ],
+  },
+  HumanName: {
+    name: "HumanName",
+    elements: [
+      {
+        name: "use",
+        type: "code",
+        values: ["official", "usual", "nickname", "maiden", "old", "anonymous"],
+      },
+      { name: "text", type: "string" },
+      { name: "family", type: "string" },
+      { name: "given", type: "string", array: 1 },
+      { name: "prefix", type: "string", array: 1 },
+      { name: "suffix", type: "string", array: 1 },
+      { name: "period", type: "complex", ref: "Period" },
+    ],
+  },
+  Identifier: {
+    name: "Identifier",
+    elements: [
+      { name: "system", type: "string", constraints: { format: "uri" } },
+      { name: "value", type: "string", required: true },
+      { name: "type", type: "complex", ref: "CodeableConcept" },
+      { name: "period", type: "complex", ref: "Period" },
+    ],
+  },
+  InsuranceForm: {
+    name: "InsuranceForm",
+    elements: [
+      { name: "formNumber", type: "string", required: true },
+      { name: "editionDate", type: "string", constraints: { format: "date" } },
+      { name: "formType", type: "code", values: ["bureau", "proprietary", "manuscript"] },
+      { name: "bureau", type: "complex", ref: "CodeableConcept" },
+      { name: "title", type: "string" },
+    ],
+  },
+  InsuranceSpecialty: {
+    name: "InsuranceSpecialty",
+    elements: [
+      { name: "line", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "subLine", type: "complex", ref: "CodeableConcept" },
+      { name: "ratingBureau", type: "complex", ref: "Coding" },
+      { name: "formNumber", type: "string" },
+      { name: "program", type: "string" },
+    ],
+  },
+  Insured: {
+    name: "Insured",
+    resourceType: "Insured",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Insured"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "status", type: "code", required: true, values: ["active", "inactive", "prospect"] },
+      { name: "name", type: "string", required: true },
+      { name: "type", type: "code", required: true, values: ["individual", "organization"] },
+      { name: "dba", type: "string" },
+      { name: "taxId", type: "complex", ref: "Coding" },
+      { name: "naicsCode", type: "complex", ref: "Coding" },
+      { name: "sicCode", type: "complex", ref: "Coding" },
+      { name: "address", type: "complex", array: 1, ref: "Address" },
+      { name: "contact", type: "complex", array: 1, ref: "ContactPoint" },
+      { name: "yearEstablished", type: "number", constraints: { minimum: 1600, maximum: 2100 } },
+      { name: "employeeCount", type: "number", constraints: { minimum: 0 } },
+      {
+        name: "annualRevenue",
+        type: "complex",
+        elements: [
+          { name: "value", type: "number", required: true },
+          { name: "currency", type: "string" },
+        ],
+      },
+      { name: "website", type: "string" },
+      { name: "entityType", type: "complex", ref: "CodeableConcept" },
+      { name: "partOf", type: "complex", ref: "Reference" },
+      { name: "individualName", type: "complex", ref: "HumanName" },
+      { name: "dateOfBirth", type: "string", constraints: { format: "date" } },
+      { name: "gender", type: "code", values: ["male", "female", "other", "unknown"] },
+      {
+        name: "maritalStatus",
+        type: "code",
+        values: ["single", "married", "divorced", "widowed", "domestic-partner"],
+      },
+      { name: "occupation", type: "string" },
+      { name: "creditScoreTier", type: "complex", ref: "CodeableConcept" },
+      { name: "lossHistory", type: "complex", array: 1, ref: "LossHistory" },
+    ],
+  },
+  LargeLoss: {
+    name: "LargeLoss",
+    elements: [
+      { name: "dateOfLoss", type: "string", required: true, constraints: { format: "date" } },
+      { name: "description", type: "string", required: true },
+      { name: "lossType", type: "complex", ref: "CodeableConcept" },
+      { name: "totalIncurred", type: "complex", required: true, ref: "Money" },
+      { name: "status", type: "code", values: ["open", "closed", "reserved"] },
+    ],
+  },
+  License: {
+    name: "License",
+    elements: [
+      { name: "state", type: "string", required: true },
+      { name: "licenseNumber", type: "string", required: true },
+      { name: "lineOfAuthority", type: "complex", ref: "CodeableConcept" },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: ["active", "inactive", "expired", "suspended", "revoked"],
+      },
+      { name: "expirationDate", type: "string", constraints: { format: "date" } },
+      { name: "issueDate", type: "string", constraints: { format: "date" } },
+    ],
+  },
+  Lienholder: {
+    name: "Lienholder",
+    elements: [
+      { name: "name", type: "string", required: true },
+      {
+        name: "type",
+        type: "code",
+        required: true,
+        values: ["mortgagee", "loss-payee", "lienholder", "additional-insured"],
+      },
+      { name: "loanNumber", type: "string" },
+      { name: "address", type: "complex", ref: "Address" },
+      { name: "contact", type: "complex", array: 1, ref: "ContactPoint" },
+      { name: "isaoa", type: "boolean" },
+    ],
+  },
+  Location: {
+    name: "Location",
+    resourceType: "Location",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Location"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "status", type: "code", required: true, values: ["active", "inactive"] },
+      { name: "name", type: "string" },
+      { name: "address", type: "complex", required: true, ref: "Address" },
+      {
+        name: "occupancy",
+        type: "complex",
+        binding: { system: "https://bind.codes/occupancy-type", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      {
+        name: "constructionType",
+        type: "complex",
+        binding: { system: "https://bind.codes/construction-type", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "yearBuilt", type: "number", constraints: { minimum: 1600, maximum: 2100 } },
+      { name: "yearRenovated", type: "number", constraints: { minimum: 1600, maximum: 2100 } },
+      { name: "squareFootage", type: "complex", ref: "Quantity" },
+      { name: "stories", type: "number" },
+      { name: "buildingValue", type: "complex", ref: "Money" },
+      { name: "contentsValue", type: "complex", ref: "Money" },
+      { name: "businessIncomeValue", type: "complex", ref: "Money" },
+      { name: "protectionClass", type: "string" },
+      { name: "sprinklered", type: "boolean" },
+      { name: "fireAlarm", type: "boolean" },
+      { name: "securitySystem", type: "boolean" },
+      { name: "distanceToFireStation", type: "number" },
+      { name: "distanceToHydrant", type: "number" },
+      { name: "floodZone", type: "string" },
+      { name: "windExposed", type: "boolean" },
+      { name: "insured", type: "complex", ref: "Reference" },
+      { name: "policy", type: "complex", ref: "Reference" },
+      { name: "values", type: "complex", array: 1, ref: "AssetValuation" },
+      {
+        name: "dwellingType",
+        type: "code",
+        values: [
+          "single-family",
+          "condo",
+          "townhouse",
+          "mobile-home",
+          "duplex",
+          "multi-family",
+          "manufactured",
+        ],
+      },
+      {
+        name: "roofType",
+        type: "complex",
+        binding: { system: "https://bind.codes/roof-type", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "roofYear", type: "number", constraints: { minimum: 1600, maximum: 2100 } },
+      { name: "roofShape", type: "complex", ref: "CodeableConcept" },
+      { name: "plumbingType", type: "complex", ref: "CodeableConcept" },
+      { name: "plumbingYear", type: "number", constraints: { minimum: 1600, maximum: 2100 } },
+      { name: "heatingType", type: "complex", ref: "CodeableConcept" },
+      { name: "heatingYear", type: "number", constraints: { minimum: 1600, maximum: 2100 } },
+      { name: "electricalType", type: "complex", ref: "CodeableConcept" },
+      { name: "electricalYear", type: "number", constraints: { minimum: 1600, maximum: 2100 } },
+      { name: "foundationType", type: "complex", ref: "CodeableConcept" },
+      { name: "hasBasement", type: "boolean" },
+      {
+        name: "basementType",
+        type: "code",
+        values: ["finished", "unfinished", "partially-finished", "walk-out", "none"],
+      },
+      { name: "hasPool", type: "boolean" },
+      { name: "poolType", type: "code", values: ["in-ground", "above-ground", "none"] },
+      { name: "poolFenced", type: "boolean" },
+      { name: "fireplaces", type: "number" },
+      { name: "detachedStructures", type: "string" },
+      { name: "deadbolts", type: "boolean" },
+      { name: "smokeDetectors", type: "boolean" },
+      { name: "waterLeakDetection", type: "boolean" },
+      { name: "burglarAlarm", type: "boolean" },
+      { name: "fireExtinguisher", type: "boolean" },
+      { name: "backupGenerator", type: "boolean" },
+      {
+        name: "protectionClassCode",
+        type: "complex",
+        binding: { system: "https://bind.codes/protection-class", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "propertyCondition", type: "code", values: ["excellent", "good", "fair", "poor"] },
+      { name: "sprinklerDetail", type: "complex", ref: "SprinklerDetail" },
+      {
+        name: "alarmType",
+        type: "complex",
+        binding: { system: "https://bind.codes/alarm-type", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "dogBreed", type: "string", array: 1 },
+      { name: "hasTrampoline", type: "boolean" },
+      { name: "lienholders", type: "complex", array: 1, ref: "Lienholder" },
+    ],
+  },
+  LossHistory: {
+    name: "LossHistory",
+    elements: [
+      { name: "period", type: "complex", required: true, ref: "Period" },
+      { name: "carrier", type: "complex", ref: "Reference" },
+      { name: "policyNumber", type: "string" },
+      { name: "lineOfBusiness", type: "complex", ref: "CodeableConcept" },
+      { name: "totalClaims", type: "number" },
+      { name: "totalIncurred", type: "complex", ref: "Money" },
+      { name: "totalPaid", type: "complex", ref: "Money" },
+      { name: "openClaims", type: "number" },
+      { name: "largeLosses", type: "complex", array: 1, ref: "LargeLoss" },
+      { name: "lossRatio", type: "number", constraints: { minimum: 0, maximum: 100 } },
+    ],
+  },
+  Meta: {
+    name: "Meta",
+    elements: [
+      { name: "versionId", type: "string" },
+      { name: "lastUpdated", type: "string", constraints: { format: "date-time" } },
+      { name: "source", type: "string", constraints: { format: "uri" } },
+      { name: "tag", type: "complex", array: 1, ref: "Coding" },
+    ],
+  },
+  Money: {
+    name: "Money",
+    elements: [
+      { name: "value", type: "number", required: true },
+      { name: "currency", type: "string" },
+    ],
+  },
+  MoneyWithConversion: {
+    name: "MoneyWithConversion",
+    elements: [
+      { name: "original", type: "complex", required: true, ref: "Money" },
+      { name: "converted", type: "complex", required: true, ref: "Money" },
+      { name: "exchangeRate", type: "number", required: true },
+      { name: "exchangeRateDate", type: "string", constraints: { format: "date" } },
+      { name: "rateSource", type: "string" },
+    ],
+  },
+  MultiCurrencyMoney: {
+    name: "MultiCurrencyMoney",
+    elements: [
+      { name: "primary", type: "complex", required: true, ref: "Money" },
+      { name: "equivalents", type: "complex", array: 1, ref: "MoneyWithConversion" },
+    ],
+  },
+  NamedDriver: {
+    name: "NamedDriver",
+    elements: [
+      { name: "name", type: "complex", required: true, ref: "HumanName" },
+      { name: "dateOfBirth", type: "string", constraints: { format: "date" } },
+      { name: "gender", type: "code", values: ["male", "female", "other", "unknown"] },
+      { name: "licenseNumber", type: "string" },
+      { name: "licenseState", type: "string" },
+      {
+        name: "licenseStatus",
+        type: "code",
+        values: ["valid", "suspended", "revoked", "expired", "permit", "unlicensed"],
+      },
+      { name: "dateFirstLicensed", type: "string", constraints: { format: "date" } },
+      {
+        name: "driverStatus",
+        type: "code",
+        required: true,
+        values: ["rated", "excluded", "permitted", "not-rated"],
+      },
+      { name: "relationshipToInsured", type: "complex", ref: "CodeableConcept" },
+      { name: "primaryUse", type: "code", values: ["commute", "business", "pleasure", "farm"] },
+      { name: "annualMileage", type: "number", constraints: { minimum: 0 } },
+      { name: "violations", type: "complex", array: 1, ref: "DrivingViolation" },
+      { name: "defensiveDrivingCourse", type: "boolean" },
+      { name: "goodStudentDiscount", type: "boolean" },
+      { name: "person", type: "complex", ref: "Reference" },
+      { name: "sr22Required", type: "boolean" },
+    ],
+  },
+  Note: {
+    name: "Note",
+    resourceType: "Note",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Note"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "subject", type: "complex", required: true, ref: "Reference" },
+      { name: "author", type: "complex", ref: "Reference" },
+      { name: "created", type: "string", required: true, constraints: { format: "date-time" } },
+      { name: "category", type: "complex", ref: "CodeableConcept" },
+      { name: "text", type: "string", required: true },
+      { name: "attachments", type: "complex", array: 1, ref: "Attachment" },
+    ],
+  },
+  Organization: {
+    name: "Organization",
+    resourceType: "Organization",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Organization"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "status", type: "code", required: true, values: ["active", "inactive"] },
+      { name: "name", type: "string", required: true },
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "naic", type: "complex", ref: "Coding" },
+      { name: "fein", type: "complex", ref: "Coding" },
+      { name: "amBestRating", type: "complex", ref: "Coding" },
+      { name: "spRating", type: "complex", ref: "Coding" },
+      { name: "address", type: "complex", array: 1, ref: "Address" },
+      { name: "contact", type: "complex", array: 1, ref: "ContactPoint" },
+      { name: "licensedStates", type: "string", array: 1 },
+      { name: "linesOfBusiness", type: "complex", array: 1, ref: "CodeableConcept" },
+      { name: "admittedStatus", type: "code", values: ["admitted", "non-admitted", "both"] },
+      { name: "partOf", type: "complex", ref: "Reference" },
+      { name: "financialRatings", type: "complex", array: 1, ref: "FinancialRating" },
+      { name: "appointments", type: "complex", array: 1, ref: "CarrierAppointment" },
+      { name: "eAndOPolicy", type: "complex", ref: "Reference" },
+      { name: "entityType", type: "complex", ref: "CodeableConcept" },
+      {
+        name: "organizationLevel",
+        type: "code",
+        values: ["legal-entity", "operating-company", "group", "holding-company"],
+      },
+      { name: "specialties", type: "complex", array: 1, ref: "InsuranceSpecialty" },
+      { name: "licenses", type: "complex", array: 1, ref: "License" },
+      { name: "territories", type: "string", array: 1 },
+      {
+        name: "bindingAuthority",
+        type: "complex",
+        elements: [
+          { name: "maxPremium", type: "complex", ref: "Money" },
+          { name: "maxLimit", type: "complex", ref: "Money" },
+          { name: "linesOfBusiness", type: "complex", array: 1, ref: "CodeableConcept" },
+        ],
+      },
+    ],
+  },
+  Period: {
+    name: "Period",
+    elements: [
+      { name: "start", type: "string", constraints: { format: "date" } },
+      { name: "end", type: "string", constraints: { format: "date" } },
+    ],
+  },
+  Person: {
+    name: "Person",
+    resourceType: "Person",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Person"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "status", type: "code", required: true, values: ["active", "inactive"] },
+      { name: "name", type: "complex", required: true, ref: "HumanName" },
+      { name: "contact", type: "complex", array: 1, ref: "ContactPoint" },
+      { name: "address", type: "complex", array: 1, ref: "Address" },
+      { name: "designations", type: "complex", array: 1, ref: "Coding" },
+      { name: "licenses", type: "complex", array: 1, ref: "License" },
+      { name: "npn", type: "string" },
+      { name: "notes", type: "string" },
+    ],
+  },
+  PersonRole: {
+    name: "PersonRole",
+    resourceType: "PersonRole",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["PersonRole"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      { name: "status", type: "code", required: true, values: ["active", "inactive", "on-leave"] },
+      { name: "person", type: "complex", required: true, ref: "Reference" },
+      { name: "organization", type: "complex", required: true, ref: "Reference" },
+      {
+        name: "role",
+        type: "complex",
+        required: true,
+        binding: { system: "https://bind.codes/producer-role", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "specialty", type: "complex", array: 1, ref: "CodeableConcept" },
+      { name: "period", type: "complex", ref: "Period" },
+      { name: "contact", type: "complex", array: 1, ref: "ContactPoint" },
+      {
+        name: "bindingAuthority",
+        type: "complex",
+        elements: [
+          { name: "maxPremium", type: "complex", ref: "Money" },
+          { name: "maxLimit", type: "complex", ref: "Money" },
+          { name: "linesOfBusiness", type: "complex", array: 1, ref: "CodeableConcept" },
+          { name: "territory", type: "string", array: 1 },
+        ],
+      },
+      { name: "reportsTo", type: "complex", ref: "Reference" },
+      {
+        name: "producerType",
+        type: "code",
+        values: ["producing-agent", "servicing-agent", "sub-producer", "wholesaler"],
+      },
+    ],
+  },
+  Policy: {
+    name: "Policy",
+    resourceType: "Policy",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Policy"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: ["active", "pending", "cancelled", "expired", "non-renewed"],
+      },
+      { name: "policyNumber", type: "string", required: true },
+      { name: "insured", type: "complex", required: true, ref: "Reference" },
+      { name: "carrier", type: "complex", required: true, ref: "Reference" },
+      { name: "broker", type: "complex", ref: "Reference" },
+      { name: "mga", type: "complex", ref: "Reference" },
+      { name: "effectivePeriod", type: "complex", required: true, ref: "Period" },
+      { name: "linesOfBusiness", type: "complex", array: 1, ref: "CodeableConcept" },
+      { name: "totalPremium", type: "complex", ref: "Money" },
+      { name: "minimumPremium", type: "complex", ref: "Money" },
+      { name: "commission", type: "complex", ref: "Commission" },
+      { name: "risks", type: "complex", array: 1, ref: "Reference" },
+      { name: "underwriter", type: "complex", ref: "Reference" },
+      { name: "accountManager", type: "complex", ref: "Reference" },
+      { name: "boundDate", type: "string", constraints: { format: "date-time" } },
+      { name: "cancelledDate", type: "string", constraints: { format: "date-time" } },
+      { name: "cancellationReason", type: "complex", ref: "CodeableConcept" },
+      { name: "coverageForm", type: "code", values: ["occurrence", "claims-made"] },
+      { name: "retroactiveDate", type: "string", constraints: { format: "date" } },
+      { name: "coverages", type: "complex", array: 1, ref: "Reference" },
+      { name: "endorsements", type: "complex", array: 1, ref: "Endorsement" },
+      { name: "originatingQuote", type: "complex", ref: "Reference" },
+      { name: "documents", type: "complex", array: 1, ref: "Attachment" },
+      {
+        name: "transactionType",
+        type: "code",
+        values: [
+          "new-business",
+          "endorsement",
+          "renewal",
+          "reinstatement",
+          "reissue",
+          "cancellation",
+          "non-renewal",
+        ],
+      },
+      {
+        name: "billingMethod",
+        type: "code",
+        values: ["direct-bill", "agency-bill", "pay-as-you-go", "premium-finance"],
+      },
+      {
+        name: "billingFrequency",
+        type: "code",
+        values: ["annual", "semi-annual", "quarterly", "monthly"],
+      },
+      { name: "language", type: "string" },
+      { name: "additionalInterests", type: "complex", array: 1, ref: "AdditionalInterest" },
+      { name: "transactions", type: "complex", array: 1, ref: "PolicyTransaction" },
+      { name: "forms", type: "complex", array: 1, ref: "InsuranceForm" },
+      { name: "notes", type: "complex", array: 1, ref: "Reference" },
+    ],
+  },
+  PolicyCondition: {
+    name: "PolicyCondition",
+    elements: [
+      { name: "code", type: "complex", required: true, ref: "CodeableConcept" },
+      {
+        name: "type",
+        type: "code",
+        required: true,
+        values: ["warranty", "protective-safeguard", "condition"],
+      },
+      { name: "description", type: "string" },
+      { name: "effectivePeriod", type: "complex", ref: "Period" },
+    ],
+  },
+  PolicyTransaction: {
+    name: "PolicyTransaction",
+    elements: [
+      {
+        name: "transactionType",
+        type: "code",
+        required: true,
+        values: [
+          "new-business",
+          "endorsement",
+          "renewal",
+          "reinstatement",
+          "reissue",
+          "cancellation",
+          "non-renewal",
+        ],
+      },
+      { name: "policy", type: "complex", required: true, ref: "Reference" },
+      { name: "effectiveDate", type: "string", required: true, constraints: { format: "date" } },
+      { name: "initiatedBy", type: "complex", ref: "Reference" },
+      { name: "reason", type: "complex", ref: "CodeableConcept" },
+      { name: "description", type: "string" },
+      { name: "premiumChange", type: "complex", ref: "Money" },
+    ],
+  },
+  Premium: {
+    name: "Premium",
+    elements: [
+      { name: "writtenPremium", type: "complex", required: true, ref: "Money" },
+      { name: "minimumPremium", type: "complex", ref: "Money" },
+      { name: "depositPremium", type: "complex", ref: "Money" },
+      { name: "estimatedPremium", type: "complex", ref: "Money" },
+      { name: "auditedPremium", type: "complex", ref: "Money" },
+      { name: "basis", type: "complex", ref: "PremiumBasis" },
+      { name: "adjustments", type: "complex", array: 1, ref: "PremiumAdjustment" },
+      { name: "isAuditable", type: "boolean" },
+      { name: "installments", type: "complex", array: 1, ref: "PremiumInstallment" },
+      { name: "allocationByLocation", type: "complex", array: 1, ref: "PremiumAllocation" },
+    ],
+  },
+  PremiumAdjustment: {
+    name: "PremiumAdjustment",
+    elements: [
+      { name: "type", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "factor", type: "number" },
+      { name: "amount", type: "complex", ref: "Money" },
+      { name: "description", type: "string" },
+    ],
+  },
+  PremiumAllocation: {
+    name: "PremiumAllocation",
+    elements: [
+      { name: "location", type: "complex", ref: "Reference" },
+      { name: "classification", type: "complex", ref: "CodeableConcept" },
+      { name: "risk", type: "complex", ref: "Reference" },
+      { name: "amount", type: "complex", required: true, ref: "Money" },
+    ],
+  },
+  PremiumBasis: {
+    name: "PremiumBasis",
+    elements: [
+      { name: "ratePerUnit", type: "number" },
+      { name: "rateBasis", type: "complex", ref: "CodeableConcept" },
+      { name: "exposureAmount", type: "complex", ref: "Quantity" },
+      { name: "basePremium", type: "complex", ref: "Money" },
+    ],
+  },
+  PremiumInstallment: {
+    name: "PremiumInstallment",
+    elements: [
+      { name: "installmentNumber", type: "number", required: true },
+      { name: "dueDate", type: "string", required: true, constraints: { format: "date" } },
+      { name: "amount", type: "complex", required: true, ref: "Money" },
+      { name: "status", type: "code", values: ["due", "paid", "overdue", "waived"] },
+    ],
+  },
+  PremiumLineItem: {
+    name: "PremiumLineItem",
+    elements: [
+      { name: "lineOfBusiness", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "premium", type: "complex", required: true, ref: "Money" },
+      { name: "rateBasis", type: "string" },
+      { name: "rate", type: "number" },
+      { name: "exposureBase", type: "number" },
+    ],
+  },
+  Quantity: {
+    name: "Quantity",
+    elements: [
+      { name: "value", type: "number", required: true },
+      { name: "unit", type: "string" },
+      { name: "system", type: "string", constraints: { format: "uri" } },
+      { name: "code", type: "string" },
+    ],
+  },
+  QuestionResponse: {
+    name: "QuestionResponse",
+    elements: [
+      { name: "questionCode", type: "complex", ref: "CodeableConcept" },
+      { name: "questionText", type: "string", required: true },
+      { name: "answer", type: "string", required: true },
+      { name: "answeredDate", type: "string", constraints: { format: "date" } },
+      { name: "lineOfBusiness", type: "complex", ref: "CodeableConcept" },
+      { name: "notes", type: "string" },
+    ],
+  },
+  Quote: {
+    name: "Quote",
+    resourceType: "Quote",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Quote"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: ["draft", "offered", "accepted", "rejected", "expired", "bound", "superseded"],
+      },
+      { name: "submission", type: "complex", ref: "Reference" },
+      { name: "insured", type: "complex", required: true, ref: "Reference" },
+      { name: "carrier", type: "complex", required: true, ref: "Reference" },
+      { name: "underwriter", type: "complex", ref: "Reference" },
+      { name: "proposedEffective", type: "complex", ref: "Period" },
+      { name: "totalPremium", type: "complex", ref: "Money" },
+      { name: "premiumBreakdown", type: "complex", array: 1, ref: "PremiumLineItem" },
+      { name: "quoteDate", type: "string", constraints: { format: "date-time" } },
+      { name: "validUntil", type: "string", constraints: { format: "date" } },
+      { name: "subjectivities", type: "complex", array: 1, ref: "Subjectivity" },
+      { name: "termsAndConditions", type: "string" },
+      { name: "resultingPolicy", type: "complex", ref: "Reference" },
+      { name: "version", type: "number", constraints: { minimum: 1 } },
+      { name: "risks", type: "complex", array: 1, ref: "Reference" },
+    ],
+  },
+  Reference: {
+    name: "Reference",
+    elements: [
+      { name: "reference", type: "string" },
+      { name: "type", type: "string" },
+      { name: "display", type: "string" },
+    ],
+  },
+  Resource: {
+    name: "Resource",
+    elements: [
+      { name: "resourceType", type: "string", required: true },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+    ],
+  },
+  Risk: {
+    name: "Risk",
+    resourceType: "Risk",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Risk"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: ["active", "inactive", "pending", "disposed"],
+      },
+      {
+        name: "riskType",
+        type: "complex",
+        required: true,
+        binding: { system: "https://bind.codes/risk-type", strength: "preferred" },
+        ref: "CodeableConcept",
+      },
+      { name: "description", type: "string" },
+      { name: "insured", type: "complex", ref: "Reference" },
+      { name: "location", type: "complex", ref: "Reference" },
+      { name: "characteristics", type: "complex", array: 1, ref: "RiskCharacteristic" },
+      { name: "values", type: "complex", array: 1, ref: "AssetValuation" },
+      { name: "classifications", type: "complex", array: 1, ref: "CodeableConcept" },
+      { name: "effectivePeriod", type: "complex", ref: "Period" },
+      { name: "coverages", type: "complex", array: 1, ref: "Reference" },
+      { name: "partOf", type: "complex", ref: "Reference" },
+      { name: "notes", type: "string" },
+      { name: "namedDrivers", type: "complex", array: 1, ref: "NamedDriver" },
+      { name: "lienholders", type: "complex", array: 1, ref: "Lienholder" },
+      { name: "garagingAddress", type: "complex", ref: "Address" },
+    ],
+  },
+  RiskCharacteristic: {
+    name: "RiskCharacteristic",
+    elements: [
+      { name: "code", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "valueString", type: "string" },
+      { name: "valueInteger", type: "number" },
+      { name: "valueDecimal", type: "number" },
+      { name: "valueBoolean", type: "boolean" },
+      { name: "valueCodeableConcept", type: "complex", ref: "CodeableConcept" },
+      { name: "valueQuantity", type: "complex", ref: "Quantity" },
+      { name: "valueMoney", type: "complex", ref: "Money" },
+      { name: "valueCoding", type: "complex", ref: "Coding" },
+      { name: "valuePeriod", type: "complex", ref: "Period" },
+    ],
+  },
+  ScheduledItem: {
+    name: "ScheduledItem",
+    elements: [
+      { name: "category", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "description", type: "string", required: true },
+      { name: "value", type: "complex", required: true, ref: "Money" },
+      { name: "serialNumber", type: "string" },
+      { name: "appraisal", type: "complex", ref: "Attachment" },
+      { name: "appraisalDate", type: "string", constraints: { format: "date" } },
+      { name: "make", type: "string" },
+      { name: "model", type: "string" },
+      { name: "year", type: "number" },
+    ],
+  },
+  SplitLimitComponent: {
+    name: "SplitLimitComponent",
+    elements: [
+      { name: "category", type: "complex", required: true, ref: "CodeableConcept" },
+      { name: "amount", type: "complex", required: true, ref: "Money" },
+    ],
+  },
+  SprinklerDetail: {
+    name: "SprinklerDetail",
+    elements: [
+      { name: "type", type: "code", values: ["wet", "dry", "pre-action", "deluge"] },
+      { name: "coveragePercentage", type: "number" },
+      { name: "agent", type: "complex", ref: "CodeableConcept" },
+    ],
+  },
+  Subjectivity: {
+    name: "Subjectivity",
+    elements: [
+      { name: "description", type: "string", required: true },
+      { name: "type", type: "code", required: true, values: ["pre-bind", "post-bind"] },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: ["outstanding", "satisfied", "waived"],
+      },
+      { name: "dueDate", type: "string", constraints: { format: "date" } },
+    ],
+  },
+  Submission: {
+    name: "Submission",
+    resourceType: "Submission",
+    elements: [
+      { name: "resourceType", type: "code", required: true, values: ["Submission"] },
+      { name: "id", type: "string" },
+      { name: "meta", type: "complex", ref: "Meta" },
+      {
+        name: "status",
+        type: "code",
+        required: true,
+        values: [
+          "draft",
+          "submitted",
+          "in-review",
+          "quoted",
+          "declined",
+          "bound",
+          "withdrawn",
+          "expired",
+        ],
+      },
+      { name: "insured", type: "complex", required: true, ref: "Reference" },
+      { name: "broker", type: "complex", ref: "Reference" },
+      { name: "carrier", type: "complex", ref: "Reference" },
+      { name: "requestedEffective", type: "complex", ref: "Period" },
+      { name: "linesOfBusiness", type: "complex", array: 1, ref: "CodeableConcept" },
+      { name: "targetPremium", type: "complex", ref: "Money" },
+      { name: "submissionType", type: "code", values: ["new-business", "renewal", "remarket"] },
+      { name: "submittedDate", type: "string", constraints: { format: "date-time" } },
+      { name: "responseDeadline", type: "string", constraints: { format: "date" } },
+      { name: "supportingDocuments", type: "complex", array: 1, ref: "Attachment" },
+      { name: "notes", type: "string" },
+      { name: "expiringPolicy", type: "complex", ref: "Reference" },
+      { name: "resultingQuotes", type: "complex", array: 1, ref: "Reference" },
+      { name: "risks", type: "complex", array: 1, ref: "Reference" },
+      { name: "lossHistory", type: "complex", array: 1, ref: "LossHistory" },
+      { name: "questions", type: "complex", array: 1, ref: "QuestionResponse" },
+    ],
+  },
+  SubrogationDetail: {
+    name: "SubrogationDetail",
+    elements: [
+      { name: "responsibleParty", type: "string" },
+      { name: "thirdPartyInsurer", type: "string" },
+      { name: "thirdPartyPolicyNumber", type: "string" },
+      { name: "potentialRecovery", type: "complex", ref: "Money" },
+      { name: "actualRecovery", type: "complex", ref: "Money" },
+      {
+        name: "status",
+        type: "code",
+        values: ["identified", "in-progress", "recovered", "abandoned"],
+      },
+    ],
+  },
+};
+
+/** Constraints of the BIND primitive types, keyed by type alias name. */
+export const primitives: Record<string, ElementConstraints> = {
+  BindBase64Binary: { pattern: "^[A-Za-z0-9+/]+=*$" },
+  BindBoolean: {},
+  BindDate: { pattern: "^\\d{4}(-\\d{2}(-\\d{2})?)?$" },
+  BindDateTime: { format: "date-time" },
+  BindDecimal: {},
+  BindId: { pattern: "^[A-Za-z0-9\\-\\.]+$" },
+  BindInstant: { format: "date-time" },
+  BindInteger: { integer: true },
+  BindMarkdown: {},
+  BindPercentage: { minimum: 0, maximum: 100 },
+  BindPositiveInt: { minimum: 1 },
+  BindString: {},
+  BindTime: { format: "time" },
+  BindUri: { format: "uri" },
+  BindUrl: { format: "uri" },
+  BindYear: { minimum: 1600, maximum: 2100 },
+  UcumUnit: {},
+};
@@ -0,0 +1,21 @@
+export type { ConstraintViolation } from "./constraints";
+export { checkConstraints, checkPrimitive, isValidFormat } from "./constraints";
+export { definitions, primitives } from "./definitions";
+export type { TerminologyValidationOptions } from "./terminology";
+export { validateTerminology } from "./terminology";
+export type {
+  BindingStrength,
+  ElementBinding,
+  ElementConstraints,
+  ElementDefinition,
+  ElementFormat,
+  ElementType,
+  TypeDefinition,
+  ValidateOptions,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationResult,
+} from "./types";
+export { getResourceDefinition, ValidationError, validate } from "./validate";
+export type { WalkNode } from "./walk";
+export { walkResource } from "./walk";
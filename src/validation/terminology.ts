@@ -0,0 +1,152 @@
+// BIND Validation — Terminology Bindings
+// Checks codings in @terminology-bound elements against the BIND Terminology Server.
+
+import type { TerminologyApi } from "../terminology/client";
+import { TerminologyClientError } from "../terminology/client";
+import { codeSystemId } from "../terminology/system";
+import type { LookupResult } from "../terminology/types";
+import type { Coding } from "../types/base";
+import type {
+  ElementBinding,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationResult,
+} from "./types";
+import { walkResource } from "./walk";
+
+/**
+ * Options for `validateTerminology`.
+ */
+export interface TerminologyValidationOptions {
+  /**
+   * Report every binding issue as an error, including issues on `preferred`,
+   * `extensible` and `example` bindings (default false).
+   */
+  strict?: boolean;
+
+  /** BCP-47 language code; displays are compared against the localized display */
+  lang?: string;
+}
+
+/**
+ * Validate the codings of every `@terminology`-bound element in a resource
+ * (e.g., `Claim.lossType`, `Coverage.lineOfBusiness`, `Location.roofType`).
+ *
+ * Each `Coding` is looked up in the bound code system and reported when its code
+ * is unknown, its `system` is not the bound code system, or its `display` does not
+ * match the concept's display or any of its designations. Codings without a `system`
+ * are assumed to belong to the bound code system. A coding from another system is
+ * accepted as a translation when the same concept also has a coding from the bound system.
+ *
+ * Issues on `required` bindings are errors; all other issues are warnings unless
+ * `strict` is set. Bindings of strength `example` are only checked in strict mode.
+ *
+ * @param resource - The resource to check (should already pass `validate`)
+ * @param client - Terminology client used to look up concepts
+ * @throws TerminologyClientError for server failures other than an unknown code (404)
+ *
+ * @example
+ * ```ts
+ * const client = new TerminologyClient();
+ * const result = await validateTerminology(location, client, { strict: true });
+ * ```
+ */
+export async function validateTerminology(
+  resource: unknown,
+  client: Pick<TerminologyApi, "lookup">,
+  options?: TerminologyValidationOptions,
+): Promise<ValidationResult> {
+  const strict = options?.strict ?? false;
+  const lookups = new Map<string, Promise<LookupResult | undefined>>();
+  const lookup = (system: string, code: string) => {
+    const key = `${system}|${code}`;
+    let result = lookups.get(key);
+    if (!result) {
+      result = client.lookup(codeSystemId(system), code, { lang: options?.lang }).catch((error) => {
+        if (error instanceof TerminologyClientError && error.status === 404) return undefined;
+        throw error;
+      });
+      lookups.set(key, result);
+    }
+    return result;
+  };
+
+  const checks: Promise<ValidationIssue[]>[] = [];
+
+  for (const { value, element, path } of walkResource(resource)) {
+    const binding = element.binding;
+    if (!binding || (binding.strength === "example" && !strict)) continue;
+
+    const severity = strict || binding.strength === "required" ? "error" : "warning";
+    const codings =
+      element.ref === "Coding"
+        ? [{ coding: value, path }]
+        : asArray((value as { coding?: unknown }).coding).map((coding, i) => ({
+            coding,
+            path: `${path}.coding[${i}]`,
+          }));
+    const valid = codings.map((c) => c.coding).filter(isCoding);
+    const hasBoundCoding = valid.some((c) => c.system === binding.system);
+
+    for (const { coding, path: codingPath } of codings) {
+      if (!isCoding(coding)) continue;
+      checks.push(
+        checkCoding(coding, binding, hasBoundCoding, lookup).then((found) =>
+          found.map(([code, message]) => ({ severity, code, path: codingPath, message })),
+        ),
+      );
+    }
+  }
+
+  const issues = (await Promise.all(checks)).flat();
+  return { valid: !issues.some((i) => i.severity === "error"), issues };
+}
+
+async function checkCoding(
+  coding: Coding,
+  binding: ElementBinding,
+  hasBoundCoding: boolean,
+  lookup: (system: string, code: string) => Promise<LookupResult | undefined>,
+): Promise<[ValidationIssueCode, string][]> {
+  if (coding.system !== undefined && coding.system !== binding.system) {
+    return hasBoundCoding
+      ? []
+      : [["invalid-system", `System '${coding.system}' should be '${binding.system}'`]];
+  }
+
+  const concept = await lookup(binding.system, coding.code);
+  if (!concept) {
+    return [["unknown-code", `Code '${coding.code}' is not defined in ${binding.system}`]];
+  }
+
+  if (coding.display !== undefined && !matchesDisplay(coding.display, concept)) {
+    return [
+      [
+        "display-mismatch",
+        `Display '${coding.display}' does not match '${concept.display}' for code '${coding.code}'`,
+      ],
+    ];
+  }
+
+  return [];
+}
+
+function matchesDisplay(display: string, concept: LookupResult): boolean {
+  const normalized = display.trim().toLowerCase();
+  return [concept.display, ...(concept.designation ?? []).map((d) => d.value)].some(
+    (candidate) => candidate.trim().toLowerCase() === normalized,
+  );
+}
+
+function isCoding(value: unknown): value is Coding {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Coding).code === "string" &&
+    ((value as Coding).system === undefined || typeof (value as Coding).system === "string")
+  );
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
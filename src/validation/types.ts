@@ -0,0 +1,189 @@
+// BIND Validation — TypeScript Types
+// Runtime structure definitions and validation results.
+
+/**
+ * The runtime kind of an element value.
+ *
+ * - `string`, `number`, `boolean` — JSON primitives
+ * - `code` — a string restricted to a fixed set of literal values
+ * - `complex` — a nested structure, either a named type or an inline object
+ */
+export type ElementType = "string" | "number" | "boolean" | "code" | "complex";
+
+/**
+ * Runtime description of a single property on a BIND type.
+ *
+ * @example
+ * { "name": "status", "type": "code", "required": true, "values": ["active", "inactive"] }
+ */
+export interface ElementDefinition {
+  /** Property name */
+  name: string;
+
+  /** Runtime kind of the property value */
+  type: ElementType;
+
+  /** Name of the referenced type definition, when `type` is "complex" */
+  ref?: string;
+
+  /** Inline element definitions for anonymous object types, when `type` is "complex" */
+  elements?: ElementDefinition[];
+
+  /** Allowed literal values, when `type` is "code" */
+  values?: string[];
+
+  /** Whether the property must be present */
+  required?: boolean;
+
+  /** Array nesting depth (1 for `T[]`, 3 for `number[][][]`); absent for scalars */
+  array?: number;
+
+  /** Value constraints declared with JSDoc tags on the property or its primitive type */
+  constraints?: ElementConstraints;
+
+  /** Terminology binding declared with the `@terminology` tag */
+  binding?: ElementBinding;
+}
+
+/**
+ * A binding of a coded element to a BIND code system.
+ *
+ * @example
+ * { "system": "https://bind.codes/roof-type", "strength": "preferred" }
+ */
+export interface ElementBinding {
+  /** Canonical URL of the code system (e.g., "https://bind.codes/roof-type") */
+  system: string;
+
+  /**
+   * How strongly codes are expected to come from the code system.
+   *
+   * - `required` — Codes must come from the code system
+   * - `extensible` — Codes should come from the code system unless no suitable concept exists
+   * - `preferred` — Codes are encouraged but not required to come from the code system
+   * - `example` — The code system is illustrative only
+   */
+  strength: BindingStrength;
+}
+
+/** Strength of a terminology binding */
+export type BindingStrength = "required" | "extensible" | "preferred" | "example";
+
+/**
+ * Value constraints taken from the `@pattern`, `@format`, `@minimum`, `@maximum`
+ * and `@asType` JSDoc tags in `src/types`.
+ *
+ * @example
+ * { "minimum": 1600, "maximum": 2100 }
+ */
+export interface ElementConstraints {
+  /** Regular expression the string value must match */
+  pattern?: string;
+
+  /** Named string format */
+  format?: ElementFormat;
+
+  /** Inclusive lower bound for numbers */
+  minimum?: number;
+
+  /** Inclusive upper bound for numbers */
+  maximum?: number;
+
+  /** Whether the number must be a whole number */
+  integer?: boolean;
+}
+
+/**
+ * String formats used by the BIND types.
+ *
+ * - `date` — A full or partial date: `YYYY`, `YYYY-MM` or `YYYY-MM-DD`
+ * - `date-time` — An RFC 3339 date-time with timezone (e.g., "2025-06-10T16:00:00Z")
+ * - `time` — A time of day: `hh:mm` or `hh:mm:ss` with optional fractional seconds
+ * - `uri` — An absolute URI with a scheme (e.g., "https://bind.codes/roof-type", "urn:oid:1.2.3")
+ */
+export type ElementFormat = "date" | "date-time" | "time" | "uri";
+
+/**
+ * Runtime description of a BIND resource or data type.
+ * Generated from the interfaces in `src/types` by `scripts/generate-definitions.ts`.
+ */
+export interface TypeDefinition {
+  /** Interface name (e.g., "Policy", "Money") */
+  name: string;
+
+  /** Fixed resource type discriminator, present only for resources */
+  resourceType?: string;
+
+  /** Properties of the type, base resource properties first */
+  elements: ElementDefinition[];
+}
+
+/**
+ * A single problem found while validating a resource.
+ *
+ * @example
+ * {
+ *   "severity": "error",
+ *   "code": "required",
+ *   "path": "$.effectivePeriod",
+ *   "message": "Missing required element 'effectivePeriod'"
+ * }
+ */
+export interface ValidationIssue {
+  /** Whether the issue makes the resource invalid */
+  severity: "error" | "warning";
+
+  /** Machine-readable issue category */
+  code: ValidationIssueCode;
+
+  /** JSON path to the offending value (e.g., "$.limits[0].amount.value") */
+  path: string;
+
+  /** Human-readable description of the issue */
+  message: string;
+}
+
+/**
+ * Issue categories reported by the validator.
+ *
+ * - `invalid-resource` — The input is not an object with a known `resourceType`
+ * - `required` — A required element is missing
+ * - `invalid-type` — A value has the wrong JSON type
+ * - `invalid-code` — A code value is not one of the allowed values
+ * - `invalid-format` — A string does not match its `@pattern` or `@format`
+ * - `out-of-range` — A number is outside its `@minimum` / `@maximum` bounds
+ * - `unknown-code` — A coding's code does not exist in the bound code system
+ * - `invalid-system` — A coding's system is not the bound code system
+ * - `display-mismatch` — A coding's display does not match the concept's display
+ * - `unknown-element` — A property is not defined on the type
+ */
+export type ValidationIssueCode =
+  | "invalid-resource"
+  | "required"
+  | "invalid-type"
+  | "invalid-code"
+  | "invalid-format"
+  | "out-of-range"
+  | "unknown-code"
+  | "invalid-system"
+  | "display-mismatch"
+  | "unknown-element";
+
+/**
+ * Options for `validate`.
+ */
+export interface ValidateOptions {
+  /** Check `@pattern`, `@format`, `@minimum` and `@maximum` constraints (default true) */
+  constraints?: boolean;
+}
+
+/**
+ * Result of validating a resource.
+ */
+export interface ValidationResult {
+  /** True when no issue has severity "error" */
+  valid: boolean;
+
+  /** All issues found, in document order */
+  issues: ValidationIssue[];
+}
@@ -0,0 +1,182 @@
+// BIND Validation — Runtime Validator
+// Checks untrusted JSON against the generated structure definitions.
+
+import { checkConstraints } from "./constraints";
+import { definitions } from "./definitions";
+import type {
+  ElementDefinition,
+  TypeDefinition,
+  ValidateOptions,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationResult,
+} from "./types";
+
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ValidationIssue[],
+  ) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+const resourceDefinitions = new Map(
+  Object.values(definitions)
+    .filter((d) => d.resourceType)
+    .map((d) => [d.resourceType as string, d]),
+);
+
+/**
+ * Validate a BIND resource received as untrusted JSON.
+ * Dispatches on `resourceType` and checks required elements, value types,
+ * code values and all nested data types. Unless disabled, values are also
+ * checked against the `@pattern`, `@format`, `@minimum` and `@maximum` tags
+ * declared on the BIND types.
+ *
+ * @example
+ * ```ts
+ * import { validate } from "@bind-standard/sdk/validation";
+ *
+ * const result = validate(JSON.parse(body));
+ * if (!result.valid) {
+ *   for (const issue of result.issues) console.warn(issue.path, issue.message);
+ * }
+ * ```
+ */
+export function validate(resource: unknown, options?: ValidateOptions): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const report: Reporter = (code, path, message) => {
+    issues.push({
+      severity: code === "unknown-element" ? "warning" : "error",
+      code,
+      path,
+      message,
+    });
+  };
+  const context: Context = { report, constraints: options?.constraints ?? true };
+
+  if (!isObject(resource)) {
+    report("invalid-resource", "$", "Resource must be a JSON object");
+  } else if (typeof resource.resourceType !== "string") {
+    report("invalid-resource", "$.resourceType", "Missing resourceType");
+  } else {
+    const definition = resourceDefinitions.get(resource.resourceType);
+    if (!definition) {
+      report(
+        "invalid-resource",
+        "$.resourceType",
+        `Unknown resourceType '${resource.resourceType}'`,
+      );
+    } else {
+      checkObject(resource, definition.elements, "$", context);
+    }
+  }
+
+  return { valid: !issues.some((i) => i.severity === "error"), issues };
+}
+
+/**
+ * Look up the definition of a resource type.
+ * Returns undefined if the resource type is not part of the BIND standard.
+ */
+export function getResourceDefinition(resourceType: string): TypeDefinition | undefined {
+  return resourceDefinitions.get(resourceType);
+}
+
+type Reporter = (code: ValidationIssueCode, path: string, message: string) => void;
+
+interface Context {
+  report: Reporter;
+  constraints: boolean;
+}
+
+function checkObject(
+  value: Record<string, unknown>,
+  elements: ElementDefinition[],
+  path: string,
+  context: Context,
+): void {
+  const { report } = context;
+  for (const element of elements) {
+    const child = value[element.name];
+    const childPath = `${path}.${element.name}`;
+    if (child === undefined || child === null) {
+      if (element.required) {
+        report("required", childPath, `Missing required element '${element.name}'`);
+      }
+      continue;
+    }
+    checkValue(child, element, element.array ?? 0, childPath, context);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!elements.some((e) => e.name === key)) {
+      report("unknown-element", `${path}.${key}`, `Unknown element '${key}'`);
+    }
+  }
+}
+
+function checkValue(
+  value: unknown,
+  element: ElementDefinition,
+  depth: number,
+  path: string,
+  context: Context,
+): void {
+  const { report } = context;
+  if (depth > 0) {
+    if (!Array.isArray(value)) {
+      report("invalid-type", path, `Expected an array for '${element.name}'`);
+      return;
+    }
+    value.forEach((item, i) => {
+      checkValue(item, element, depth - 1, `${path}[${i}]`, context);
+    });
+    return;
+  }
+
+  switch (element.type) {
+    case "string":
+    case "number":
+    case "boolean":
+      if (typeof value !== element.type) {
+        report("invalid-type", path, `Expected ${element.type} but got ${describe(value)}`);
+      } else if (context.constraints && element.constraints) {
+        const violation = checkConstraints(value, element.constraints);
+        if (violation) report(violation.code, path, violation.message);
+      }
+      return;
+    case "code":
+      if (typeof value !== "string") {
+        report("invalid-type", path, `Expected string but got ${describe(value)}`);
+      } else if (!element.values?.includes(value)) {
+        report(
+          "invalid-code",
+          path,
+          `'${value}' is not one of: ${element.values?.map((v) => `'${v}'`).join(", ")}`,
+        );
+      }
+      return;
+    case "complex": {
+      if (!isObject(value)) {
+        report("invalid-type", path, `Expected object but got ${describe(value)}`);
+        return;
+      }
+      const elements = element.ref ? definitions[element.ref]?.elements : element.elements;
+      checkObject(value, elements ?? [], path, context);
+      return;
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
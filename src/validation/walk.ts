@@ -0,0 +1,78 @@
+// BIND Validation — Resource Walker
+// Visits every element of a resource together with its structure definition.
+
+import { definitions } from "./definitions";
+import type { ElementDefinition } from "./types";
+import { getResourceDefinition } from "./validate";
+
+/**
+ * An element value encountered while walking a resource.
+ * Array elements are visited once per item.
+ */
+export interface WalkNode {
+  /** The element value (a single item for array elements) */
+  value: unknown;
+
+  /** Definition of the element */
+  element: ElementDefinition;
+
+  /** JSON path to the value (e.g., "$.coverages[0]") */
+  path: string;
+}
+
+/**
+ * Walk every element of a resource in document order, parents before children.
+ * Values that do not match their definition's shape are still visited but not
+ * descended into, so the walker is safe to use on unvalidated JSON.
+ *
+ * @example
+ * ```ts
+ * for (const { value, element, path } of walkResource(policy)) {
+ *   if (element.ref === "Reference") console.log(path, value);
+ * }
+ * ```
+ */
+export function* walkResource(resource: unknown): Generator<WalkNode> {
+  if (!isObject(resource) || typeof resource.resourceType !== "string") return;
+  const definition = getResourceDefinition(resource.resourceType);
+  if (definition) yield* walkObject(resource, definition.elements, "$");
+}
+
+function* walkObject(
+  value: Record<string, unknown>,
+  elements: ElementDefinition[],
+  path: string,
+): Generator<WalkNode> {
+  for (const element of elements) {
+    const child = value[element.name];
+    if (child !== undefined && child !== null) {
+      yield* walkValue(child, element, element.array ?? 0, `${path}.${element.name}`);
+    }
+  }
+}
+
+function* walkValue(
+  value: unknown,
+  element: ElementDefinition,
+  depth: number,
+  path: string,
+): Generator<WalkNode> {
+  if (depth > 0) {
+    if (!Array.isArray(value)) return;
+    for (let i = 0; i < value.length; i++) {
+      yield* walkValue(value[i], element, depth - 1, `${path}[${i}]`);
+    }
+    return;
+  }
+
+  yield { value, element, path };
+
+  if (element.type === "complex" && isObject(value)) {
+    const elements = element.ref ? definitions[element.ref]?.elements : element.elements;
+    yield* walkObject(value, elements ?? [], path);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
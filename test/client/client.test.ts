@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BindClient, BindClientError } from "../../src/client/client";
+import { createResourceServer } from "../../src/server/resource-server";
+import { ResourceStore } from "../../src/store/store";
+import type { Organization } from "../../src/types/organization";
+import { listen } from "../listen";
+
+const store = new ResourceStore();
+const client = new BindClient({ baseUrl: await listen(createResourceServer({ store })) });
+
+function organization(id: string, name: string): Organization {
+  return {
+    resourceType: "Organization",
+    id,
+    name,
+    status: "active",
+    type: { coding: [{ code: "carrier", display: "Insurance Carrier" }] },
+  };
+}
+
+describe("BindClient against the resource server", () => {
+  it("creates, reads and reads versions of a resource", async () => {
+    const created = await client.create(organization("org-read", "Summit Mutual"));
+    assert.equal(created.meta?.versionId, "1");
+
+    const updated = await client.update({ ...created, name: "Summit Mutual Insurance" });
+    assert.equal(updated.meta?.versionId, "2");
+
+    assert.equal((await client.read("Organization", "org-read")).name, "Summit Mutual Insurance");
+    assert.equal((await client.vread("Organization", "org-read", "1")).name, "Summit Mutual");
+
+    const history = await client.history("Organization", "org-read");
+    assert.deepEqual(
+      history.entry?.map((entry) => entry.resource?.meta?.versionId),
+      ["2", "1"],
+    );
+  });
+
+  it("rejects an update of a stale version with 412", async () => {
+    const created = await client.create(organization("org-stale", "Harbor Re"));
+    await client.update({ ...created, name: "Harbor Reinsurance" });
+
+    const error = await client.update({ ...created, name: "Harbor" }).catch((e: unknown) => e);
+    assert.ok(error instanceof BindClientError);
+    assert.equal(error.status, 412);
+    assert.equal(error.body?.code, "precondition-failed");
+
+    const forced = await client.update({ ...created, name: "Harbor" }, { ifMatch: false });
+    assert.equal(forced.meta?.versionId, "3");
+  });
+
+  it("rejects an invalid resource with 422 and its issues", async () => {
+    const invalid = { ...organization("org-invalid", "Nameless"), status: "dormant" };
+    const error = await client.create(invalid as unknown as Organization).catch((e: unknown) => e);
+    assert.ok(error instanceof BindClientError);
+    assert.equal(error.status, 422);
+    assert.ok(error.body?.issues?.some((issue) => issue.path === "$.status"));
+  });
+
+  it("searches, with the number of matches before _count as the bundle total", async () => {
+    for (const id of ["a", "b", "c"]) {
+      await client.create(organization(`org-search-${id}`, `Search Carrier ${id.toUpperCase()}`));
+    }
+    const bundle = await client.search("Organization", { name: "Search Carrier", _count: "2" });
+    assert.equal(bundle.type, "searchset");
+    assert.equal(bundle.total, 3);
+    assert.equal(bundle.entry?.length, 2);
+  });
+
+  it("deletes a resource, after which reads are 404s", async () => {
+    await client.create(organization("org-delete", "Short Lived"));
+    await client.delete("Organization", "org-delete");
+
+    const error = await client.read("Organization", "org-delete").catch((e: unknown) => e);
+    assert.ok(error instanceof BindClientError);
+    assert.equal(error.status, 404);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyEndorsements } from "../../src/endorsement/apply";
+import type { Coverage } from "../../src/types/coverage";
+import type { Endorsement } from "../../src/types/policy";
+import { coverage, policy } from "../fixtures";
+
+const eachOccurrence = { text: "Each Occurrence" };
+const aggregate = { text: "General Aggregate" };
+
+const issued: Coverage[] = [
+  coverage("cov-gl", 36_500, {
+    limits: [
+      { type: eachOccurrence, amount: { value: 1_000_000, currency: "USD" } },
+      { type: aggregate, amount: { value: 2_000_000, currency: "USD" } },
+    ],
+  }),
+  coverage("cov-prop", 18_250),
+  coverage("cov-auto", 7_300),
+];
+
+const endorsements: Endorsement[] = [
+  {
+    endorsementNumber: "END-002",
+    type: { text: "Mid-Term Modification" },
+    effectiveDate: "2025-09-01",
+    changes: [{ coverage: { reference: "Coverage/cov-prop" }, action: "remove" }],
+  },
+  {
+    endorsementNumber: "END-001",
+    type: { text: "Mid-Term Modification" },
+    effectiveDate: "2025-07-01",
+    changes: [
+      {
+        coverage: { reference: "Coverage/cov-gl" },
+        action: "modify",
+        limits: [{ type: eachOccurrence, amount: { value: 2_000_000, currency: "USD" } }],
+        description: "Increase each-occurrence limit",
+      },
+      { coverage: { reference: "Coverage/cov-auto" }, action: "add" },
+    ],
+  },
+];
+
+const endorsed = policy({ endorsements });
+
+describe("applyEndorsements", () => {
+  it("returns the coverages as issued before any endorsement", () => {
+    const { coverages, trace } = applyEndorsements(endorsed, issued, "2025-06-30");
+    assert.deepEqual(
+      coverages.map((c) => c.id),
+      ["cov-gl", "cov-prop"],
+    );
+    assert.equal(coverages[0]?.limits?.[0]?.amount?.value, 1_000_000);
+    assert.deepEqual(trace, []);
+  });
+
+  it("applies modify and add changes from their effective date", () => {
+    const { coverages, trace } = applyEndorsements(endorsed, issued, "2025-07-01");
+    assert.deepEqual(
+      coverages.map((c) => c.id),
+      ["cov-gl", "cov-prop", "cov-auto"],
+    );
+    assert.deepEqual(
+      coverages[0]?.limits?.map((limit) => limit.amount?.value),
+      [2_000_000, 2_000_000],
+    );
+    assert.deepEqual(trace, [
+      {
+        coverage: "Coverage/cov-gl",
+        path: "limits[0]",
+        action: "modify",
+        endorsement: { index: 1, endorsementNumber: "END-001", effectiveDate: "2025-07-01" },
+        description: "Increase each-occurrence limit",
+      },
+      {
+        coverage: "Coverage/cov-auto",
+        path: "",
+        action: "add",
+        endorsement: { index: 1, endorsementNumber: "END-001", effectiveDate: "2025-07-01" },
+      },
+    ]);
+  });
+
+  it("drops removed coverages, applying endorsements in effective date order", () => {
+    const { coverages, trace } = applyEndorsements(endorsed, issued, "2025-12-31");
+    assert.deepEqual(
+      coverages.map((c) => c.id),
+      ["cov-gl", "cov-auto"],
+    );
+    assert.ok(
+      trace.some((entry) => entry.coverage === "Coverage/cov-prop" && entry.action === "remove"),
+    );
+  });
+
+  it("does not modify the coverages passed in", () => {
+    const before = structuredClone(issued);
+    applyEndorsements(endorsed, issued, "2025-12-31");
+    assert.deepEqual(issued, before);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyEndorsements } from "../../src/endorsement/apply";
+import { diffCoverages, EndorsementError } from "../../src/endorsement/diff";
+import { earnedPremium, PremiumError } from "../../src/premium/premium";
+import type { Coverage } from "../../src/types/coverage";
+import { coverage, coverages, policy } from "../fixtures";
+
+const effectivePeriod = { start: "2025-01-01", end: "2026-01-01" };
+const eachOccurrence = { text: "Each Occurrence" };
+
+function withLimit(value: number, writtenPremium: number): Coverage {
+  return coverage("cov-gl", writtenPremium, {
+    limits: [{ type: eachOccurrence, amount: { value, currency: "USD" } }],
+  });
+}
+
+describe("diffCoverages", () => {
+  it("describes changed limits, pro-rating the premium change over the rest of the term", () => {
+    const endorsement = diffCoverages(
+      [withLimit(1_000_000, 36_500)],
+      [withLimit(2_000_000, 40_150)],
+      {
+        effectiveDate: "2025-07-01",
+        effectivePeriod,
+      },
+    );
+    const [change] = endorsement.changes ?? [];
+    assert.equal(change?.action, "modify");
+    assert.equal(
+      change?.description,
+      "Increase Each Occurrence limit from USD 1,000,000 to USD 2,000,000",
+    );
+    // USD 3,650 a year for the 184 days from 2025-07-01 to expiration
+    assert.deepEqual(change?.premiumChange, { value: 1_840, currency: "USD" });
+    assert.deepEqual(endorsement.premiumChange, { value: 1_840, currency: "USD" });
+  });
+
+  it("charges full-term premium without an effective period", () => {
+    const endorsement = diffCoverages(
+      [withLimit(1_000_000, 36_500)],
+      [withLimit(1_000_000, 40_150)],
+      {
+        effectiveDate: "2025-07-01",
+      },
+    );
+    assert.deepEqual(endorsement.premiumChange, { value: 3_650, currency: "USD" });
+    assert.equal(endorsement.changes?.[0]?.description, "Change premium");
+  });
+
+  it("adds and removes coverages", () => {
+    const endorsement = diffCoverages(
+      coverages(),
+      [coverage("cov-gl", 36_500), coverage("cov-auto", 7_300)],
+      {
+        effectiveDate: "2025-04-11",
+        effectivePeriod,
+      },
+    );
+    assert.deepEqual(
+      endorsement.changes?.map((c) => [c.action, c.coverage.reference, c.premiumChange?.value]),
+      [
+        ["remove", "Coverage/cov-prop", -13_250],
+        ["add", "Coverage/cov-auto", 5_300],
+      ],
+    );
+    assert.equal(endorsement.premiumChange?.value, -7_950);
+  });
+
+  it("returns premium that earnedPremium books as earned up to the removal", () => {
+    const endorsement = diffCoverages(coverages(), [coverage("cov-gl", 36_500)], {
+      effectiveDate: "2025-04-11",
+      effectivePeriod,
+    });
+    const endorsed = policy({ endorsements: [endorsement] });
+    const premium = earnedPremium(endorsed, "2025-12-31", coverages());
+    const property = premium.coverages.find((c) => c.coverage === "Coverage/cov-prop");
+    assert.equal(property?.written.value, 5_000);
+    assert.equal(property?.earned.value, 5_000);
+  });
+
+  it("gives the edited coverages when applied to the original ones", () => {
+    const before = [withLimit(1_000_000, 36_500)];
+    const after = [withLimit(2_000_000, 36_500)];
+    const endorsement = diffCoverages(before, after, {
+      effectiveDate: "2025-07-01",
+      effectivePeriod,
+    });
+    const { coverages: endorsed } = applyEndorsements(
+      policy({ endorsements: [endorsement] }),
+      before,
+      "2025-07-01",
+    );
+    assert.deepEqual(endorsed, after);
+  });
+
+  it("has no changes for the same coverages", () => {
+    const endorsement = diffCoverages(coverages(), coverages(), { effectiveDate: "2025-07-01" });
+    assert.deepEqual(endorsement.changes, []);
+    assert.equal(endorsement.premiumChange, undefined);
+  });
+
+  it("rejects coverages without an id", () => {
+    const anonymous = coverage("cov-gl", 36_500, { id: undefined });
+    assert.throws(
+      () => diffCoverages([anonymous], [], { effectiveDate: "2025-07-01" }),
+      (error: unknown) => error instanceof EndorsementError && error.code === "missing-id",
+    );
+  });
+
+  it("rejects an effective date outside the effective period", () => {
+    assert.throws(
+      () => diffCoverages([], [], { effectiveDate: "2026-03-01", effectivePeriod }),
+      (error: unknown) => error instanceof PremiumError && error.code === "not-in-force",
+    );
+  });
+});
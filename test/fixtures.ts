@@ -0,0 +1,45 @@
+// Test Helpers — Fixtures
+// A one-year policy with two coverages, for premium and endorsement tests.
+
+import type { Coverage } from "../src/types/coverage";
+import type { Policy } from "../src/types/policy";
+
+/**
+ * A policy for 2025-01-01 to 2026-01-01 (365 days) with a total premium of
+ * USD 54,750: USD 100 a day for general liability and USD 50 a day for property.
+ */
+export function policy(overrides?: Partial<Policy>): Policy {
+  return {
+    resourceType: "Policy",
+    id: "pol-1001",
+    status: "active",
+    policyNumber: "GL-2025-1001",
+    insured: { reference: "Insured/ins-1" },
+    carrier: { reference: "Organization/carrier-1" },
+    effectivePeriod: { start: "2025-01-01", end: "2026-01-01" },
+    totalPremium: { value: 54_750, currency: "USD" },
+    ...overrides,
+  };
+}
+
+/** A coverage of `policy()` with the given annual written premium. */
+export function coverage(
+  id: string,
+  writtenPremium: number,
+  overrides?: Partial<Coverage>,
+): Coverage {
+  return {
+    resourceType: "Coverage",
+    id,
+    status: "active",
+    policy: { reference: "Policy/pol-1001" },
+    lineOfBusiness: { text: id === "cov-gl" ? "General Liability" : "Property" },
+    premium: { writtenPremium: { value: writtenPremium, currency: "USD" } },
+    ...overrides,
+  };
+}
+
+/** The coverages of `policy()`. */
+export function coverages(): Coverage[] {
+  return [coverage("cov-gl", 36_500), coverage("cov-prop", 18_250)];
+}
@@ -0,0 +1,22 @@
+// Test Helpers — Listen
+// Starts a Node HTTP server on a free local port for the duration of a test file.
+
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after } from "node:test";
+
+/**
+ * Listen on a free port of the loopback interface, and close the server after
+ * the test file's tests.
+ *
+ * @returns The server's base URL (e.g., "http://127.0.0.1:53124")
+ */
+export async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+}
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { returnPremium, shortRateTable } from "../../src/premium/cancellation";
+import { earnedPremium, PremiumError } from "../../src/premium/premium";
+import { coverages, policy } from "../fixtures";
+
+// Cancelled after 100 of 365 days: USD 15,000 earned pro-rata, USD 39,750 unearned
+const cancelled = policy({ status: "cancelled", cancelledDate: "2025-04-11" });
+
+describe("returnPremium", () => {
+  it("returns the unearned premium pro-rata", () => {
+    const cancellation = returnPremium(cancelled, coverages());
+    assert.equal(cancellation.method, "pro-rata");
+    assert.equal(cancellation.earned.value, 15_000);
+    assert.equal(cancellation.returnPremium.value, 39_750);
+    assert.deepEqual(
+      cancellation.coverages.map((c) => c.returnPremium.value),
+      [26_500, 13_250],
+    );
+    assert.deepEqual(cancellation.transaction, {
+      transactionType: "cancellation",
+      policy: { reference: "Policy/pol-1001", type: "Policy" },
+      effectiveDate: "2025-04-11",
+      description: "Pro-rata cancellation",
+      premiumChange: { value: -39_750, currency: "USD" },
+    });
+  });
+
+  it("returns 90% of the pro-rata unearned premium short-rate", () => {
+    const cancellation = returnPremium(cancelled, coverages(), { method: "short-rate" });
+    assert.equal(cancellation.returnPremium.value, 35_775);
+    assert.equal(cancellation.earned.value, 18_975);
+    assert.equal(cancellation.transaction.description, "Short-rate cancellation (90/10)");
+  });
+
+  it("uses a custom short-rate table", () => {
+    const table = shortRateTable("Carrier", [
+      { days: 90, earned: 0.3 },
+      { days: 120, earned: 0.35 },
+      { days: 365, earned: 1 },
+    ]);
+    const cancellation = returnPremium(cancelled, coverages(), {
+      method: "short-rate",
+      shortRateTable: table,
+    });
+    assert.equal(cancellation.earned.value, 19_162.5);
+  });
+
+  it("returns all written premium flat", () => {
+    const cancellation = returnPremium(cancelled, coverages(), { method: "flat" });
+    assert.equal(cancellation.earned.value, 0);
+    assert.equal(cancellation.returnPremium.value, 54_750);
+  });
+
+  it("keeps the policy's minimum premium", () => {
+    const minimum = policy({ ...cancelled, minimumPremium: { value: 20_000, currency: "USD" } });
+    const cancellation = returnPremium(minimum, coverages());
+    assert.equal(cancellation.earned.value, 20_000);
+    assert.equal(cancellation.returnPremium.value, 34_750);
+    assert.equal(cancellation.minimumPremiumApplied, true);
+  });
+
+  it("books the same earned premium as earnedPremium once its transaction is added", () => {
+    const cancellation = returnPremium(cancelled, coverages(), { method: "short-rate" });
+    const booked = policy({ ...cancelled, transactions: [cancellation.transaction] });
+    const premium = earnedPremium(booked, "2025-12-31", coverages());
+    assert.equal(premium.earned.value, cancellation.earned.value);
+    assert.equal(premium.unearned.value, 0);
+  });
+
+  it("rejects a cancellation date outside the term", () => {
+    assert.throws(
+      () => returnPremium(policy({ cancelledDate: "2026-02-01" }), coverages()),
+      (error: unknown) => error instanceof PremiumError && error.code === "not-in-force",
+    );
+  });
+
+  it("rejects a policy without a cancellation date", () => {
+    assert.throws(
+      () => returnPremium(policy(), coverages()),
+      (error: unknown) => error instanceof PremiumError && error.code === "missing-date",
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { earnedPremium, PremiumError } from "../../src/premium/premium";
+import { coverage, coverages, policy } from "../fixtures";
+
+describe("earnedPremium", () => {
+  it("earns premium by daily pro-rata", () => {
+    const premium = earnedPremium(policy(), "2025-04-11", coverages());
+    assert.deepEqual(premium.written, { value: 54_750, currency: "USD" });
+    assert.deepEqual(premium.earned, { value: 15_000, currency: "USD" });
+    assert.deepEqual(premium.unearned, { value: 39_750, currency: "USD" });
+    assert.deepEqual(premium.inForce, { value: 54_750, currency: "USD" });
+    assert.deepEqual(
+      premium.coverages.map((c) => [c.coverage, c.earned.value]),
+      [
+        ["Coverage/cov-gl", 10_000],
+        ["Coverage/cov-prop", 5_000],
+      ],
+    );
+  });
+
+  it("is fully earned and no longer in force at expiration", () => {
+    const premium = earnedPremium(policy(), "2026-01-01", coverages());
+    assert.equal(premium.earned.value, 54_750);
+    assert.equal(premium.unearned.value, 0);
+    assert.equal(premium.inForce.value, 0);
+  });
+
+  it("uses the coverages' written premium without a total premium", () => {
+    const premium = earnedPremium(policy({ totalPremium: undefined }), "2025-04-11", coverages());
+    assert.equal(premium.written.value, 54_750);
+    assert.equal(premium.earned.value, 15_000);
+  });
+
+  it("earns an endorsement's premium change from its effective date to expiration", () => {
+    const endorsed = policy({
+      endorsements: [
+        {
+          type: { text: "Mid-Term Modification" },
+          effectiveDate: "2025-07-01",
+          premiumChange: { value: 3_650, currency: "USD" },
+        },
+      ],
+    });
+    // 100 of the 184 days from 2025-07-01 to expiration
+    const premium = earnedPremium(endorsed, "2025-10-09", coverages());
+    assert.equal(premium.written.value, 58_400);
+    assert.equal(premium.earned.value, 150 * 281 + 1_983.7);
+
+    const before = earnedPremium(endorsed, "2025-06-30", coverages());
+    assert.equal(before.written.value, 54_750);
+  });
+
+  it("rejects a policy without an effective period", () => {
+    assert.throws(
+      () => earnedPremium(policy({ effectivePeriod: {} }), "2025-04-11"),
+      (error: unknown) => error instanceof PremiumError && error.code === "missing-period",
+    );
+  });
+
+  it("rejects amounts in different currencies", () => {
+    const euros = coverage("cov-eur", 1_000, {
+      premium: { writtenPremium: { value: 1_000, currency: "EUR" } },
+    });
+    assert.throws(
+      () => earnedPremium(policy(), "2025-04-11", [...coverages(), euros]),
+      (error: unknown) => error instanceof PremiumError && error.code === "currency-mismatch",
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PremiumError } from "../../src/premium/premium";
+import { rateBasisDivisor, rateCoverage } from "../../src/premium/rating";
+import type { Coverage } from "../../src/types/coverage";
+import type { Premium } from "../../src/types/premium";
+import { coverage } from "../fixtures";
+
+const usd = (value: number) => ({ value, currency: "USD" });
+
+function rated(premium: Omit<Premium, "writtenPremium">, writtenPremium: number): Coverage {
+  return coverage("cov-wc", writtenPremium, {
+    premium: { writtenPremium: usd(writtenPremium), ...premium },
+    classifications: [
+      {
+        classCode: { coding: [{ code: "3632", display: "Machine Shop NOC" }] },
+        exposure: { value: 1_500_000, unit: "USD" },
+        rate: 2.45,
+      },
+    ],
+  });
+}
+
+const adjustments: Premium["adjustments"] = [
+  // Listed out of order: experience modification still applies before schedule rating
+  { type: { text: "Schedule Credit" }, factor: 0.95 },
+  { type: { text: "Terrorism" }, amount: usd(250) },
+  { type: { text: "Experience Modification" }, factor: 0.85 },
+];
+
+describe("rateCoverage", () => {
+  it("rates classifications, then factors by stage, then flat amounts", () => {
+    const worksheet = rateCoverage(
+      rated({ basis: { rateBasis: { text: "per $100 of payroll" } }, adjustments }, 29_925.63),
+    );
+    assert.equal(worksheet.divisor, 100);
+    assert.deepEqual(worksheet.manualPremium, usd(36_750));
+    assert.deepEqual(
+      worksheet.steps.map((step) => [step.stage, step.premium.value]),
+      [
+        ["manual", 36_750],
+        ["experience", 31_237.5],
+        ["schedule", 29_675.63],
+        ["amount", 29_925.63],
+      ],
+    );
+    assert.equal(worksheet.steps[0]?.description, "Machine Shop NOC: 1,500,000 USD / 100 × 2.45");
+    assert.deepEqual(worksheet.premium, usd(29_925.63));
+    assert.equal(worksheet.matches, true);
+  });
+
+  it("reports the difference from a written premium that does not match", () => {
+    const worksheet = rateCoverage(
+      rated({ basis: { rateBasis: { text: "per $100 of payroll" } } }, 36_000),
+    );
+    assert.deepEqual(worksheet.difference, usd(-750));
+    assert.equal(worksheet.matches, false);
+    assert.equal(
+      rateCoverage(rated({ basis: { rateBasis: { text: "per $100 of payroll" } } }, 36_750.5), {
+        tolerance: 1,
+      }).matches,
+      true,
+    );
+  });
+
+  it("raises the premium to the minimum premium", () => {
+    const worksheet = rateCoverage(
+      coverage("cov-gl", 1_000, {
+        premium: {
+          writtenPremium: usd(1_000),
+          basis: { basePremium: usd(750) },
+          minimumPremium: usd(1_000),
+        },
+      }),
+    );
+    assert.equal(worksheet.minimumPremiumApplied, true);
+    assert.deepEqual(
+      worksheet.steps.map((step) => step.stage),
+      ["manual", "minimum"],
+    );
+    assert.equal(worksheet.matches, true);
+  });
+
+  it("rates exposure and rate from the premium basis without classifications", () => {
+    const worksheet = rateCoverage(
+      coverage("cov-auto", 7_500, {
+        premium: {
+          writtenPremium: usd(7_500),
+          basis: {
+            rateBasis: { text: "per vehicle" },
+            exposureAmount: { value: 5, unit: "vehicles" },
+            ratePerUnit: 1_500,
+          },
+        },
+      }),
+    );
+    assert.deepEqual(worksheet.premium, usd(7_500));
+    assert.equal(worksheet.steps[0]?.description, "5 vehicles × 1500");
+  });
+
+  it("rejects a coverage with nothing to rate", () => {
+    assert.throws(
+      () => rateCoverage(coverage("cov-gl", 1_000)),
+      (error: unknown) => error instanceof PremiumError && error.code === "missing-rate",
+    );
+  });
+});
+
+describe("rateBasisDivisor", () => {
+  it("parses the amount of exposure a rate applies to", () => {
+    assert.equal(rateBasisDivisor({ text: "per $100 of payroll" }), 100);
+    assert.equal(rateBasisDivisor({ text: "per $1,000 of revenue" }), 1_000);
+    assert.equal(rateBasisDivisor({ text: "Per $1M of sales" }), 1_000_000);
+    assert.equal(rateBasisDivisor({ coding: [{ code: "per-1k-receipts" }] }), 1_000);
+    assert.equal(rateBasisDivisor({ text: "% of gross receipts" }), 100);
+    assert.equal(rateBasisDivisor({ text: "per vehicle" }), 1);
+  });
+});
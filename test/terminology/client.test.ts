@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createTerminologyServer } from "../../src/server/terminology-server";
+import type { TerminologyRequestInfo, TerminologyServerOptions } from "../../src/server/types";
+import {
+  TerminologyClient,
+  type TerminologyClientOptions,
+  TerminologyNetworkError,
+  TerminologyNotFoundError,
+  TerminologyRateLimitError,
+  TerminologyTimeoutError,
+} from "../../src/terminology/client";
+import type { CodeSystem } from "../../src/terminology/types";
+import { listen } from "../listen";
+
+const roofType: CodeSystem = {
+  resourceType: "CodeSystem",
+  id: "roof-type",
+  url: "https://bind.codes/roof-type",
+  name: "RoofType",
+  title: "Roof Type",
+  status: "active",
+  description: "Roof covering materials",
+  concept: [
+    { code: "metal", display: "Metal" },
+    { code: "asphalt-shingle", display: "Asphalt Shingle" },
+  ],
+};
+
+/** Serve `roofType` with the given hooks, and a client for it that does not wait between retries. */
+async function serve(
+  options?: TerminologyServerOptions,
+  clientOptions?: TerminologyClientOptions,
+): Promise<{ client: TerminologyClient; requests: TerminologyRequestInfo[] }> {
+  const requests: TerminologyRequestInfo[] = [];
+  const server = createTerminologyServer({
+    codeSystems: [roofType],
+    onRequest: (request) => requests.push(request),
+    ...options,
+  });
+  const client = new TerminologyClient({
+    baseUrl: await listen(server),
+    retry: { retries: 2, minDelay: 1, maxDelay: 1_000 },
+    ...clientOptions,
+  });
+  return { client, requests };
+}
+
+describe("TerminologyClient caching", () => {
+  it("answers from the cache until the ttl expires", async () => {
+    const { client, requests } = await serve();
+    const first = await client.get("roof-type");
+    const second = await client.get("roof-type");
+    assert.deepEqual(second, first);
+    assert.equal(requests.length, 1);
+  });
+
+  it("revalidates expired entries with If-None-Match and reuses them on 304", async () => {
+    const { client, requests } = await serve(undefined, { ttl: 0 });
+    const first = await client.get("roof-type");
+    const second = await client.get("roof-type");
+    assert.deepEqual(second, first);
+    assert.equal(requests.length, 2);
+    assert.equal(requests[0]?.headers["if-none-match"], undefined);
+    assert.match(String(requests[1]?.headers["if-none-match"]), /^".+"$/);
+  });
+
+  it("answers lookups from a fetched code system without a request", async () => {
+    const { client, requests } = await serve();
+    await client.get("roof-type");
+    const metal = await client.lookup("roof-type", "metal");
+    assert.equal(metal.display, "Metal");
+    assert.equal(requests.length, 1);
+  });
+});
+
+describe("TerminologyClient retries", () => {
+  it("retries 5xx responses", async () => {
+    const { client, requests } = await serve({
+      fault: ({ count }) => (count <= 2 ? { status: 503 } : undefined),
+    });
+    assert.equal((await client.get("roof-type")).id, "roof-type");
+    assert.equal(requests.length, 3);
+  });
+
+  it("retries 429 responses after Retry-After, and reports the last one", async () => {
+    const { client, requests } = await serve({
+      fault: () => ({ status: 429, headers: { "Retry-After": "0" }, body: { error: "Slow down" } }),
+    });
+    const error = await client.get("roof-type").catch((e: unknown) => e);
+    assert.ok(error instanceof TerminologyRateLimitError);
+    assert.equal(error.message, "Slow down");
+    assert.equal(error.retryAfter, 0);
+    assert.equal(requests.length, 3);
+  });
+
+  it("retries dropped connections", async () => {
+    const { client, requests } = await serve({ fault: () => ({ reset: true }) });
+    const error = await client.get("roof-type").catch((e: unknown) => e);
+    assert.ok(error instanceof TerminologyNetworkError);
+    assert.equal(error.status, 0);
+    assert.equal(requests.length, 3);
+  });
+
+  it("does not retry 404 responses", async () => {
+    const { client, requests } = await serve();
+    const error = await client.lookup("roof-type", "thatch").catch((e: unknown) => e);
+    assert.ok(error instanceof TerminologyNotFoundError);
+    assert.equal(requests.length, 1);
+  });
+});
+
+describe("TerminologyClient timeouts", () => {
+  it("fails an attempt that takes longer than the timeout", async () => {
+    const { client } = await serve({ latency: 500 }, { timeout: 50, retry: false });
+    const error = await client.get("roof-type").catch((e: unknown) => e);
+    assert.ok(error instanceof TerminologyTimeoutError);
+  });
+
+  it("retries an attempt that timed out", async () => {
+    const { client, requests } = await serve(
+      { latency: ({ count }) => (count === 1 ? 500 : 0) },
+      { timeout: 100 },
+    );
+    assert.equal((await client.get("roof-type")).id, "roof-type");
+    assert.equal(requests.length, 2);
+  });
+
+  it("applies a per-call timeout even when a request for the same path is in flight", async () => {
+    const { client, requests } = await serve({ latency: 300 });
+    const [slow, fast] = await Promise.allSettled([
+      client.get("roof-type"),
+      client.get("roof-type", { timeout: 50 }),
+    ]);
+    assert.equal(slow.status, "fulfilled");
+    assert.equal(fast.status, "rejected");
+    assert.ok(fast.reason instanceof TerminologyTimeoutError);
+    assert.ok(requests.length >= 2);
+  });
+});
+
+describe("TerminologyClient coalescing", () => {
+  it("shares one request between concurrent calls for the same path", async () => {
+    const { client, requests } = await serve({ latency: 50 });
+    const results = await Promise.all([
+      client.get("roof-type"),
+      client.get("roof-type"),
+      client.get("roof-type"),
+    ]);
+    assert.equal(requests.length, 1);
+    assert.ok(results.every((result) => result.id === "roof-type"));
+  });
+
+  it("fetches each code system once for a batch of lookups", async () => {
+    const { client, requests } = await serve({ latency: 20 });
+    const results = await client.lookupMany([
+      { system: "roof-type", code: "metal" },
+      { system: "https://bind.codes/roof-type", code: "asphalt-shingle" },
+      { system: "roof-type", code: "thatch" },
+    ]);
+    assert.deepEqual(
+      [...results.values()].map((result) => result.status),
+      ["fulfilled", "fulfilled", "rejected"],
+    );
+    assert.equal(requests.length, 1);
+  });
+
+  it("keeps a shared request going while another caller is still waiting", async () => {
+    const { client, requests } = await serve({ latency: 100 });
+    const controller = new AbortController();
+    const cancelled = client.get("roof-type", { signal: controller.signal });
+    const waiting = client.get("roof-type");
+    controller.abort(new Error("Cancelled"));
+
+    await assert.rejects(cancelled, { message: "Cancelled" });
+    assert.equal((await waiting).id, "roof-type");
+    assert.equal(requests.length, 1);
+  });
+});